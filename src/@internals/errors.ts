@@ -1,7 +1,10 @@
 import { ErrorCode, Exception, ERROR_CODE, errorDescription, isKnownError } from '@rapid-d-kit/safe';
 
 
-// ErrorCode.extend([ ]);
+ErrorCode.extend([
+  'ERR_BULKHEAD_FULL',
+  'ERR_CIRCUIT_OPEN',
+]);
 
 
 export { ErrorCode, Exception, ERROR_CODE, errorDescription, isKnownError };
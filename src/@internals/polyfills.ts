@@ -0,0 +1,7 @@
+// Runtimes older than Node.js 20 do not define the explicit resource management symbols.
+// The registered symbols below are the ones TypeScript's downlevel `using` helpers fall back to.
+(Symbol as any).dispose ??= Symbol.for('Symbol.dispose');
+(Symbol as any).asyncDispose ??= Symbol.for('Symbol.asyncDispose');
+
+
+export {};
@@ -0,0 +1,177 @@
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import { Exception } from './errors';
+import { DefaultClock, IClock } from '../clock';
+import { CancellationError, ICancellationToken } from '../cancellation';
+
+
+export type WaiterMessages = {
+  timeout(timeout: number): string;
+  cancelled: string;
+};
+
+type Waiter<T> = {
+  resolve(value: T): void;
+  reject(reason?: unknown): void;
+};
+
+/**
+ * A FIFO list of pending promises, each of which leaves the list and
+ * rejects with a `CancellationError` when its own token is cancelled.
+ */
+export class WaiterQueue<T = void> {
+  #waiters: Waiter<T>[] = [];
+
+  public get size(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * Adds a waiter at the end of the list.
+   *
+   * @param token - Optional cancellation token.
+   * @param onCancel - Optional callback run synchronously when the waiter leaves because of its token.
+   */
+  public wait(token?: ICancellationToken, onCancel?: () => void): Promise<T> {
+    if(token?.isCancellationRequested)
+      return Promise.reject(new CancellationError(token.reason));
+
+    return new Promise<T>((resolve, reject) => {
+      const waiter: Waiter<T> = { resolve, reject };
+      this.#waiters.push(waiter);
+
+      if(!token) return;
+
+      const listener: IDisposable = token.onCancellationRequested(reason => {
+        const index = this.#waiters.indexOf(waiter);
+        if(index < 0) return;
+
+        this.#waiters.splice(index, 1);
+        onCancel?.();
+
+        reject(new CancellationError(reason));
+      });
+
+      waiter.resolve = value => {
+        listener.dispose();
+        resolve(value);
+      };
+
+      waiter.reject = reason => {
+        listener.dispose();
+        reject(reason);
+      };
+    });
+  }
+
+  public resolveOne(value: T): boolean {
+    const waiter = this.#waiters.shift();
+    if(!waiter) return false;
+
+    waiter.resolve(value);
+    return true;
+  }
+
+  public resolveAll(value: T): number {
+    const waiters = this.#waiters;
+    this.#waiters = [];
+
+    for(const waiter of waiters) {
+      waiter.resolve(value);
+    }
+
+    return waiters.length;
+  }
+
+  public rejectAll(reason?: unknown): number {
+    const waiters = this.#waiters;
+    this.#waiters = [];
+
+    for(const waiter of waiters) {
+      waiter.reject(reason);
+    }
+
+    return waiters.length;
+  }
+}
+
+
+/**
+ * Arms the timeout and the cancellation token of a queued waiter. Both are torn down
+ * as soon as the waiter settles; if either fires first the waiter is dequeued and rejected
+ * with an `ERR_TIMEOUT` or `ERR_TOKEN_CANCELLED` exception. The timeout runs on `clock`,
+ * `DefaultClock` unless given.
+ */
+export function watchWaiter<E extends { resolve(...args: any[]): void; reject?(reason?: unknown): void }>(
+  entry: E,
+  reject: (reason?: unknown) => void,
+  { timeout, token, clock = DefaultClock }: { timeout?: number; token?: ICancellationToken; clock?: IClock },
+  dequeue: () => void,
+  messages: WaiterMessages // eslint-disable-line comma-dangle
+): void {
+  if(typeof timeout !== 'number' && !token) return;
+
+  let timer: IDisposable | null = null;
+  let listener: IDisposable | null = null;
+
+  const cleanup = () => {
+    if(timer) {
+      timer.dispose();
+      timer = null;
+    }
+
+    listener?.dispose();
+    listener = null;
+  };
+
+  const abort = (error: Exception) => {
+    cleanup();
+    dequeue();
+    reject(error);
+  };
+
+  const resolve = entry.resolve;
+
+  entry.resolve = (...args: any[]) => {
+    cleanup();
+    resolve(...args);
+  };
+
+  if(entry.reject) {
+    const rejectEntry = entry.reject;
+
+    entry.reject = (reason?: unknown) => {
+      cleanup();
+      rejectEntry(reason);
+    };
+  }
+
+  if(typeof timeout === 'number') {
+    timer = clock.setTimeout(() => {
+      abort(new Exception(messages.timeout(timeout), 'ERR_TIMEOUT'));
+    }, timeout);
+  }
+
+  if(token) {
+    listener = token.onCancellationRequested(() => {
+      abort(new Exception(messages.cancelled, 'ERR_TOKEN_CANCELLED'));
+    }) ?? null;
+  }
+}
+
+export function findLastIndex<T>(arr: readonly T[], predicate: (value: T) => boolean): number {
+  for(let i = arr.length - 1; i >= 0; i--) {
+    if(predicate(arr[i])) return i;
+  }
+
+  return -1;
+}
+
+/**
+ * Inserts `value` after the last entry of at least the same priority, keeping `arr` sorted
+ * from the highest priority down and FIFO within a priority.
+ */
+export function insertSorted<T extends { priority: number }>(arr: T[], value: T): void {
+  const index = findLastIndex(arr, other => value.priority <= other.priority);
+  arr.splice(index + 1, 0, value);
+}
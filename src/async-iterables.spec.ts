@@ -0,0 +1,114 @@
+import AsyncIterables from './async-iterables';
+import { CancellationTokenSource } from './cancellation';
+
+
+type Tracked = AsyncIterableIterator<number> & { return: jest.Mock };
+
+describe('AsyncIterables', () => {
+  /**
+   * An endless source counting from 0, or hanging forever once it yielded `yields` values.
+   */
+  function tracked(yields: number = Infinity): Tracked {
+    let count = 0;
+
+    return {
+      next: () => count < yields ?
+        Promise.resolve({ value: count++, done: false }) :
+        new Promise<IteratorResult<number>>(() => void 0),
+      return: jest.fn(async () => ({ value: undefined, done: true as const })),
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  async function first<T>(iterable: AsyncIterable<T>): Promise<T | undefined> {
+    for await (const value of iterable) {
+      return value;
+    }
+
+    return undefined;
+  }
+
+  test.each<[string, (source: Tracked) => AsyncIterable<unknown>]>([
+    ['map', (source: Tracked) => AsyncIterables.map(source, n => n * 2)],
+    ['filter', (source: Tracked) => AsyncIterables.filter(source, () => true)],
+    ['take', (source: Tracked) => AsyncIterables.take(source, 10)],
+    ['takeUntil', (source: Tracked) => AsyncIterables.takeUntil(source, new CancellationTokenSource().token)],
+    ['merge', (source: Tracked) => AsyncIterables.merge(source)],
+    ['zip', (source: Tracked) => AsyncIterables.zip(source, source)],
+    ['race', (source: Tracked) => AsyncIterables.race(source)],
+    ['batch', (source: Tracked) => AsyncIterables.batch(source, { size: 2 })],
+    ['bufferAhead', (source: Tracked) => AsyncIterables.bufferAhead(source, 2)],
+  ])('should close the source of %s when the consumer breaks', async (_name, operator) => {
+    const source = tracked();
+
+    await expect(first(operator(source))).resolves.toBeDefined();
+    expect(source.return).toHaveBeenCalled();
+  });
+
+  test('should close every source of merge while a pull is still pending', async () => {
+    const a = tracked(1);
+    const b = tracked(0);
+    const merged = AsyncIterables.merge(a, b);
+
+    await expect(merged.next()).resolves.toEqual({ value: 0, done: false });
+
+    const pending = merged.next();
+    await merged.return!();
+
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    expect(a.return).toHaveBeenCalled();
+    expect(b.return).toHaveBeenCalled();
+  });
+
+  test('should close the source of take once the count is reached', async () => {
+    const source = tracked();
+    const values: number[] = [];
+
+    for await (const value of AsyncIterables.take(source, 2)) {
+      values.push(value);
+    }
+
+    expect(values).toEqual([0, 1]);
+    expect(source.return).toHaveBeenCalled();
+  });
+
+  test('should close the source of takeUntil once the token is cancelled while waiting', async () => {
+    const source = tracked(0);
+    const cancellation = new CancellationTokenSource();
+    const iterator = AsyncIterables.takeUntil(source, cancellation.token);
+
+    const pending = iterator.next();
+    cancellation.cancel();
+
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    expect(source.return).toHaveBeenCalled();
+  });
+
+  test('should close the losers of race as soon as a winner yields', async () => {
+    const winner = tracked();
+    const loser = tracked(0);
+    const raced = AsyncIterables.race(loser, winner);
+
+    await expect(raced.next()).resolves.toEqual({ value: 0, done: false });
+    expect(loser.return).toHaveBeenCalled();
+    expect(winner.return).not.toHaveBeenCalled();
+
+    await raced.return!();
+    expect(winner.return).toHaveBeenCalled();
+  });
+
+  test('should close the other sources when one of them fails', async () => {
+    const healthy = tracked(0);
+
+    const failing: AsyncIterable<number> = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => Promise.reject(new Error('faulty')),
+      }),
+    };
+
+    await expect(first(AsyncIterables.merge(healthy, failing))).rejects.toThrow('faulty');
+    expect(healthy.return).toHaveBeenCalled();
+  });
+});
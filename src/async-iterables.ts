@@ -0,0 +1,376 @@
+/* eslint-disable @typescript-eslint/no-namespace */
+/* eslint-disable no-inner-declarations */
+
+import { assert } from '@rapid-d-kit/safe';
+import type { FunctionArguments, LooseAutocomplete } from '@rapid-d-kit/types';
+
+import { Async } from './core';
+import { CancellationTokenSource, ICancellationToken } from './cancellation';
+import { EventIteratorOptions, ListenerCallback, on, WeakEventEmitter } from './event-emitter';
+
+
+/**
+ * Operators over async iterables. Each of them returns an iterator which, once it ends early
+ * (the consuming loop breaks, `take` reached its count, the token of `takeUntil` was cancelled or
+ * an upstream iterator failed), calls `return()` on every upstream iterator still running.
+ */
+export namespace AsyncIterables {
+  export type Source<T> = AsyncIterable<T> | Iterable<T>;
+
+  export function map<T, R>(source: Source<T>, fn: (value: T, index: number) => R | Promise<R>): AsyncIterableIterator<R> {
+    const iterator = _iterate(source);
+    let index = 0;
+
+    return _operator(() => [iterator], async () => {
+      const result = await iterator.next();
+      if(result.done) return _done();
+
+      return { value: await fn(result.value, index++), done: false };
+    });
+  }
+
+  export function filter<T>(source: Source<T>, predicate: (value: T, index: number) => boolean | Promise<boolean>): AsyncIterableIterator<T> {
+    const iterator = _iterate(source);
+    let index = 0;
+
+    return _operator(() => [iterator], async () => {
+      for(let result = await iterator.next(); !result.done; result = await iterator.next()) {
+        if(await predicate(result.value, index++)) return result;
+      }
+
+      return _done();
+    });
+  }
+
+  export function take<T>(source: Source<T>, count: number): AsyncIterableIterator<T> {
+    assert(typeof count === 'number' && count >= 0);
+
+    const iterator = _iterate(source);
+    let taken = 0;
+
+    return _operator(() => [iterator], async () => {
+      if(taken >= count) return _done();
+
+      const result = await iterator.next();
+      taken++;
+
+      return result.done ? _done() : result;
+    });
+  }
+
+  /**
+   * Ends the iteration once the token is cancelled, even while waiting for the next value.
+   */
+  export function takeUntil<T>(source: Source<T>, token: ICancellationToken): AsyncIterableIterator<T> {
+    const iterator = _iterate(source);
+
+    const operator = _operator<T>(() => [iterator], async () => {
+      const result = await iterator.next();
+      return result.done ? _done() : result;
+    }, () => listener.dispose());
+
+    const listener = token.onCancellationRequested(() => void operator.return?.());
+
+    if(token.isCancellationRequested) {
+      void operator.return?.();
+    }
+
+    return operator;
+  }
+
+  /**
+   * Yields the values of every source as they come, ending once all of them ended.
+   */
+  export function merge<T>(...sources: Source<T>[]): AsyncIterableIterator<T> {
+    const active: Set<AsyncIterator<T>> = new Set(sources.map(_iterate));
+    const pending: Map<AsyncIterator<T>, Promise<Settled<T>>> = new Map();
+
+    return _operator(() => [...active], async () => {
+      while(active.size > 0) {
+        for(const iterator of active) {
+          if(!pending.has(iterator)) {
+            pending.set(iterator, _pull(iterator));
+          }
+        }
+
+        const settled = await Promise.race(pending.values());
+        pending.delete(settled.iterator);
+
+        if('error' in settled) {
+          active.delete(settled.iterator);
+          throw settled.error;
+        }
+
+        if(!settled.result.done) return settled.result;
+        active.delete(settled.iterator);
+      }
+
+      return _done();
+    });
+  }
+
+  /**
+   * Yields tuples of the values of every source, pulled in lockstep, ending as soon as one of them ends.
+   */
+  export function zip<T extends unknown[]>(...sources: { [K in keyof T]: Source<T[K]> }): AsyncIterableIterator<T> {
+    const iterators = (sources as Source<unknown>[]).map(_iterate);
+
+    return _operator(() => iterators, async () => {
+      const results = await Promise.all(iterators.map(iterator => iterator.next()));
+      if(results.some(result => result.done)) return _done();
+
+      return { value: results.map(result => result.value) as T, done: false };
+    });
+  }
+
+  /**
+   * Follows the first source to yield a value (or to fail), dropping the others.
+   * Sources ending before yielding anything are ignored.
+   */
+  export function race<T>(...sources: Source<T>[]): AsyncIterableIterator<T> {
+    const active: Set<AsyncIterator<T>> = new Set(sources.map(_iterate));
+    let winner: AsyncIterator<T> | null = null;
+
+    return _operator(() => [...active], async () => {
+      if(winner) {
+        const result = await winner.next();
+        return result.done ? _done() : result;
+      }
+
+      const pending = new Map([...active].map(iterator => [iterator, _pull(iterator)]));
+
+      while(pending.size > 0) {
+        const settled = await Promise.race(pending.values());
+        pending.delete(settled.iterator);
+
+        if('error' in settled || !settled.result.done) {
+          winner = settled.iterator;
+          active.delete(winner);
+
+          // The losers are closed while the winner stays the only upstream iterator
+          for(const loser of active) {
+            _close(loser);
+          }
+
+          active.clear();
+          active.add(winner);
+
+          if('error' in settled) throw settled.error;
+          return settled.result;
+        }
+
+        active.delete(settled.iterator);
+      }
+
+      return _done();
+    });
+  }
+
+  export type BatchOptions = {
+    /**
+     * The maximum number of values in a batch.
+     */
+    size?: number;
+
+    /**
+     * How long a batch may wait for more values after receiving its first one, in milliseconds.
+     */
+    maxWaitMs?: number;
+  };
+
+  /**
+   * Groups the values of the source in arrays, each one yielded once it is full
+   * or once it waited `maxWaitMs` since its first value, whichever comes first.
+   */
+  export function batch<T>(source: Source<T>, { size = Infinity, maxWaitMs = Infinity }: BatchOptions): AsyncIterableIterator<T[]> {
+    assert(size === Infinity || (Number.isInteger(size) && size > 0));
+    assert(typeof maxWaitMs === 'number' && maxWaitMs >= 0);
+    assert(size !== Infinity || maxWaitMs !== Infinity);
+
+    const iterator = _iterate(source);
+
+    let ended = false;
+    let carried: Promise<Settled<T>> | null = null;
+
+    return _operator(() => [iterator], async () => {
+      if(ended) return _done();
+
+      const values: T[] = [];
+      const timer = new CancellationTokenSource();
+      let deadline: Promise<null> | null = null;
+
+      try {
+        while(values.length < size) {
+          const next = carried ?? _pull(iterator);
+          carried = null;
+
+          const settled = deadline ? await Promise.race([next, deadline]) : await next;
+
+          if(!settled) {
+            // The values arriving after the deadline belong to the next batch
+            carried = next;
+            break;
+          }
+
+          if('error' in settled) throw settled.error;
+
+          if(settled.result.done) {
+            ended = true;
+            break;
+          }
+
+          values.push(settled.result.value);
+
+          if(!deadline && maxWaitMs !== Infinity) {
+            deadline = Async.delay(maxWaitMs, timer.token).then(() => null, () => null);
+          }
+        }
+      } finally {
+        timer.cancel();
+        timer.dispose();
+      }
+
+      return values.length > 0 ? { value: values, done: false } : _done();
+    });
+  }
+
+  /**
+   * Pulls up to `count` values of the source ahead of the consumer, so producing and consuming overlap.
+   */
+  export function bufferAhead<T>(source: Source<T>, count: number): AsyncIterableIterator<T> {
+    assert(typeof count === 'number' && Number.isInteger(count) && count > 0);
+
+    const iterator = _iterate(source);
+    const queue: Promise<Settled<T>>[] = [];
+
+    let ended = false;
+
+    const fill = () => {
+      while(!ended && queue.length < count) {
+        queue.push(_pull(iterator));
+      }
+    };
+
+    return _operator(() => [iterator], async () => {
+      fill();
+      if(queue.length === 0) return _done();
+
+      const settled = await queue.shift()!;
+      if('error' in settled) throw settled.error;
+
+      if(settled.result.done) {
+        ended = true;
+        queue.length = 0;
+
+        return _done();
+      }
+
+      fill();
+      return settled.result;
+    });
+  }
+
+  /**
+   * Iterates over the arguments of every `event` emitted by `emitter`, as `on` does.
+   */
+  export function fromEmitter<T, K extends keyof T>(
+    emitter: WeakEventEmitter<T>,
+    event: LooseAutocomplete<K>,
+    options?: EventIteratorOptions // eslint-disable-line comma-dangle
+  ): AsyncIterableIterator<FunctionArguments<ListenerCallback<T[K]>>> {
+    return on(emitter, event, options);
+  }
+
+
+  type Settled<T> =
+    | { iterator: AsyncIterator<T>; result: IteratorResult<T> }
+    | { iterator: AsyncIterator<T>; error: unknown };
+
+  /**
+   * Builds an operator pulling its values from `pull`. The operator ends when `pull` reports the end,
+   * fails or `return()` is called, even while a pull is pending, and then closes `upstream()`.
+   */
+  function _operator<T>(
+    upstream: () => readonly AsyncIterator<unknown>[],
+    pull: () => Promise<IteratorResult<T>>,
+    onFinish?: () => void // eslint-disable-line comma-dangle
+  ): AsyncIterableIterator<T> {
+    let finished = false;
+    let stop!: (result: IteratorResult<T>) => void;
+
+    const stopped = new Promise<IteratorResult<T>>(resolve => {
+      stop = resolve;
+    });
+
+    const finish = () => {
+      if(finished) return;
+      finished = true;
+
+      onFinish?.();
+
+      for(const iterator of upstream()) {
+        _close(iterator);
+      }
+
+      stop(_done());
+    };
+
+    return {
+      async next(): Promise<IteratorResult<T>> {
+        if(finished) return _done();
+
+        try {
+          const result = await Promise.race([pull(), stopped]);
+
+          if(result.done) {
+            finish();
+          }
+
+          return result;
+        } catch (err: any) {
+          finish();
+          throw err;
+        }
+      },
+
+      async return(): Promise<IteratorResult<T>> {
+        finish();
+        return _done();
+      },
+
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  function _iterate<T>(source: Source<T>): AsyncIterator<T> {
+    if(Symbol.asyncIterator in source)
+      return source[Symbol.asyncIterator]();
+
+    const iterator = source[Symbol.iterator]();
+
+    return {
+      next: async () => iterator.next(),
+      return: async () => iterator.return?.() ?? _done(),
+    };
+  }
+
+  function _pull<T>(iterator: AsyncIterator<T>): Promise<Settled<T>> {
+    return iterator.next().then(result => ({ iterator, result }), error => ({ iterator, error }));
+  }
+
+  function _close(iterator: AsyncIterator<unknown>): void {
+    try {
+      Promise.resolve(iterator.return?.()).catch(() => void 0);
+    } catch {
+      // An iterator failing to close has nothing left to release
+    }
+  }
+
+  function _done<T>(): IteratorResult<T> {
+    return { value: undefined, done: true };
+  }
+}
+
+export default AsyncIterables;
@@ -0,0 +1,44 @@
+import Barrier from './barrier';
+import { CancellationTokenSource, isCancellationError } from './cancellation';
+
+
+describe('Barrier', () => {
+  test('should release every party together and start over', async () => {
+    const completed = jest.fn();
+    const barrier = new Barrier(2, completed);
+
+    const first = barrier.signalAndWait();
+    expect(barrier.remaining).toBe(1);
+
+    await expect(Promise.all([first, barrier.signalAndWait()])).resolves.toEqual([0, 0]);
+
+    expect(completed).toHaveBeenCalledWith(0);
+    expect(barrier.phase).toBe(1);
+    expect(barrier.remaining).toBe(2);
+  });
+
+  test('should reject every party when the phase callback throws', async () => {
+    const barrier = new Barrier(2, phase => {
+      if(phase === 0) throw new Error('faulty');
+    });
+
+    const first = barrier.signalAndWait().catch(err => err);
+    const second = barrier.signalAndWait().catch(err => err);
+
+    expect((await first).message).toBe('faulty');
+    expect((await second).message).toBe('faulty');
+
+    await expect(Promise.all([barrier.signalAndWait(), barrier.signalAndWait()])).resolves.toEqual([1, 1]);
+  });
+
+  test('should no longer count a party whose token is cancelled', async () => {
+    const barrier = new Barrier(2);
+    const source = new CancellationTokenSource();
+
+    const leaving = barrier.signalAndWait(source.token).catch(err => err);
+    source.cancel();
+
+    expect(isCancellationError(await leaving)).toBe(true);
+    expect(barrier.remaining).toBe(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { assert } from '@rapid-d-kit/safe';
+
+import { WaiterQueue } from './@internals/waiters';
+import { CancellationError, ICancellationToken } from './cancellation';
+
+
+/**
+ * A reusable rendezvous point: every party waits until all `parties` arrived, then they are
+ * released together and the barrier starts over for the next phase.
+ */
+export class Barrier {
+  #phase: number = 0;
+  #arrived: number = 0;
+  #parties: number;
+  #waiters: WaiterQueue<number> = new WaiterQueue();
+
+  /**
+   * Constructs a Barrier.
+   *
+   * @param parties - The number of parties taking part in each phase.
+   * @param _onPhaseCompleted - Optional callback run when every party arrived, before they are released.
+   * If it throws, the phase still completes and every party is rejected with the error instead.
+   */
+  public constructor(parties: number, private readonly _onPhaseCompleted?: (phase: number) => void) {
+    assert(typeof parties === 'number' && Number.isInteger(parties) && parties > 0);
+    this.#parties = parties;
+  }
+
+  public get parties(): number {
+    return this.#parties;
+  }
+
+  /**
+   * The number of parties the current phase is still waiting for.
+   */
+  public get remaining(): number {
+    return this.#parties - this.#arrived;
+  }
+
+  public get phase(): number {
+    return this.#phase;
+  }
+
+  /**
+   * Signals that a party reached the barrier and waits for the others.
+   * A party whose token is cancelled leaves the barrier and no longer counts as arrived.
+   *
+   * @returns {Promise<number>} The number of the phase that just completed.
+   */
+  public signalAndWait(token?: ICancellationToken): Promise<number> {
+    if(token?.isCancellationRequested)
+      return Promise.reject(new CancellationError(token.reason));
+
+    const phase = this.#phase;
+
+    if(++this.#arrived < this.#parties)
+      return this.#waiters.wait(token, () => void this.#arrived--);
+
+    this.#arrived = 0;
+    this.#phase++;
+
+    try {
+      this._onPhaseCompleted?.(phase);
+    } catch (err) {
+      this.#waiters.rejectAll(err);
+      return Promise.reject(err);
+    }
+
+    this.#waiters.resolveAll(phase);
+    return Promise.resolve(phase);
+  }
+}
+
+export default Barrier;
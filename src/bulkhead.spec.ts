@@ -0,0 +1,52 @@
+import Bulkhead from './bulkhead';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource, isCancellationError } from './cancellation';
+
+
+describe('Bulkhead', () => {
+  function deferred(): { promise: Promise<void>; resolve: () => void } {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => void (resolve = r));
+
+    return { promise, resolve };
+  }
+
+  test('should queue the tasks beyond the concurrency and reject those beyond the queue', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueue: 1 });
+    const gate = deferred();
+
+    const running = bulkhead.execute(() => gate.promise);
+    const queued = bulkhead.execute(() => 'queued');
+
+    expect(bulkhead.available).toBe(0);
+    expect(bulkhead.queued).toBe(1);
+
+    const error = await bulkhead.execute(() => 'rejected').catch(err => err);
+    expect(error.code).toBe(ErrorCode.for('ERR_BULKHEAD_FULL').getCode());
+
+    gate.resolve();
+
+    await running;
+    await expect(queued).resolves.toBe('queued');
+
+    expect(bulkhead.queued).toBe(0);
+    expect(bulkhead.available).toBe(1);
+  });
+
+  test('should leave the queue when the token of a waiting task is cancelled', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueue: 1 });
+    const gate = deferred();
+    const source = new CancellationTokenSource();
+
+    const running = bulkhead.execute(() => gate.promise);
+    const queued = bulkhead.execute(() => 'queued', source.token).catch(err => err);
+
+    source.cancel();
+
+    expect(isCancellationError(await queued)).toBe(true);
+    expect(bulkhead.queued).toBe(0);
+
+    gate.resolve();
+    await running;
+  });
+});
@@ -0,0 +1,89 @@
+import { assert } from '@rapid-d-kit/safe';
+
+import Semaphore from './semaphore';
+import { Policy, PolicyTask } from './policy';
+import { ErrorCode, Exception } from './@internals/errors';
+import { CancellationToken, ICancellationToken, throwIfCancelled } from './cancellation';
+
+
+export type BulkheadOptions = {
+  /**
+   * The maximum number of tasks running at once.
+   */
+  maxConcurrent: number;
+
+  /**
+   * The maximum number of tasks waiting for a slot. Defaults to none.
+   */
+  maxQueue?: number;
+};
+
+
+/**
+ * Isolates a dependency by bounding the number of calls made to it at once, and the number of calls
+ * waiting for their turn. Calls beyond both are rejected right away with an `ERR_BULKHEAD_FULL` exception.
+ */
+export class Bulkhead extends Policy {
+  #queued: number = 0;
+  #maxQueue: number;
+  #semaphore: Semaphore;
+
+  public constructor({ maxConcurrent, maxQueue = 0 }: BulkheadOptions) {
+    super();
+
+    assert(Number.isInteger(maxConcurrent) && maxConcurrent > 0);
+    assert(Number.isInteger(maxQueue) && maxQueue >= 0);
+
+    this.#maxQueue = maxQueue;
+    this.#semaphore = new Semaphore(maxConcurrent);
+  }
+
+  /**
+   * The number of tasks waiting for a slot.
+   */
+  public get queued(): number {
+    return this.#queued;
+  }
+
+  /**
+   * The number of free slots.
+   */
+  public get available(): number {
+    return Math.max(0, this.#semaphore.getValue());
+  }
+
+  public async execute<T>(task: PolicyTask<T>, token: ICancellationToken = CancellationToken.None): Promise<T> {
+    throwIfCancelled(token);
+
+    let waiting = this.#semaphore.isLocked() || this.#queued > 0;
+
+    if(waiting && this.#queued >= this.#maxQueue) {
+      const error = new Exception('The bulkhead is full', ErrorCode.for('ERR_BULKHEAD_FULL').getCode());
+      this._events.emit('rejected', error);
+
+      throw error;
+    }
+
+    if(waiting) {
+      this.#queued++;
+    }
+
+    const leaveQueue = () => {
+      if(!waiting) return;
+
+      waiting = false;
+      this.#queued--;
+    };
+
+    try {
+      return await this.#semaphore.runExclusive(() => {
+        leaveQueue();
+        return task(token);
+      }, { token });
+    } finally {
+      leaveQueue();
+    }
+  }
+}
+
+export default Bulkhead;
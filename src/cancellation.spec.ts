@@ -0,0 +1,192 @@
+import Mutex from './mutex';
+import { Async } from './core';
+import Bulkhead from './bulkhead';
+import Semaphore from './semaphore';
+import { VirtualClock } from './testing';
+import { CancellationError, CancellationToken, CancellationTokenSource, ICancellationToken, isCancellationError, throwIfCancelled } from './cancellation';
+
+
+describe('CancellationToken', () => {
+  test('should follow an AbortSignal with its reason', async () => {
+    const controller = new AbortController();
+    const token = CancellationToken.from(controller.signal);
+    const listener = jest.fn();
+
+    token.onCancellationRequested(listener);
+    controller.abort('stop');
+
+    expect(token.isCancellationRequested).toBe(true);
+    expect(token.reason).toBe('stop');
+    expect(listener).toHaveBeenCalledWith('stop');
+  });
+
+  test('should follow an already aborted signal', () => {
+    const controller = new AbortController();
+    controller.abort('done');
+
+    const token = CancellationToken.from(controller.signal);
+
+    expect(token.isCancellationRequested).toBe(true);
+    expect(token.reason).toBe('done');
+  });
+
+  test('should abort a signal made from a token', () => {
+    const source = new CancellationTokenSource();
+    const signal = CancellationToken.toAbortSignal(source.token);
+
+    source.cancel('reason');
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe('reason');
+  });
+
+  test('should follow a token with a single signal and let go of it once cancelled', () => {
+    const registrations: jest.Mock[] = [];
+    let fire: (reason?: any) => void = () => void 0;
+
+    const token: ICancellationToken = {
+      isCancellationRequested: false,
+      onCancellationRequested: listener => {
+        fire = listener;
+
+        const dispose = jest.fn();
+        registrations.push(dispose);
+
+        return { dispose };
+      },
+    };
+
+    const signal = CancellationToken.toAbortSignal(token);
+
+    expect(CancellationToken.toAbortSignal(token)).toBe(signal);
+    expect(registrations).toHaveLength(1);
+
+    fire('done');
+
+    expect(signal.reason).toBe('done');
+    expect(registrations[0]).toHaveBeenCalled();
+  });
+
+  test('should stop following the tokens of a linked token once disposed', () => {
+    const parent = new CancellationTokenSource();
+    const other = new CancellationTokenSource();
+
+    const anyToken = CancellationToken.any(parent.token, other.token);
+    const allToken = CancellationToken.all(parent.token, other.token);
+
+    anyToken.dispose();
+    allToken.dispose();
+
+    parent.cancel('parent');
+    other.cancel('other');
+
+    expect(anyToken.isCancellationRequested).toBe(false);
+    expect(allToken.isCancellationRequested).toBe(false);
+  });
+
+  test('should follow the first and the last cancelled token', () => {
+    const first = new CancellationTokenSource();
+    const second = new CancellationTokenSource();
+
+    const anyToken = CancellationToken.any(first.token, second.token);
+    const allToken = CancellationToken.all(first.token, second.token);
+
+    first.cancel('first');
+
+    expect(anyToken.reason).toBe('first');
+    expect(() => throwIfCancelled(anyToken)).toThrow(CancellationError);
+    expect(allToken.isCancellationRequested).toBe(false);
+
+    second.cancel('second');
+    expect(allToken.reason).toBe('second');
+  });
+
+  test('should subscribe to a reused signal only once', async () => {
+    const controller = new AbortController();
+    const spy = jest.spyOn(controller.signal, 'addEventListener');
+
+    const semaphore = new Semaphore(1);
+    const mutex = new Mutex();
+
+    for(let i = 0; i < 20; i++) {
+      await semaphore.runExclusive(() => void 0, { token: controller.signal });
+      await mutex.runExclusive(() => void 0, controller.signal);
+    }
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(CancellationToken.from(controller.signal)).toBe(CancellationToken.from(controller.signal));
+  });
+
+  test('should reject the pending acquisitions when the signal aborts', async () => {
+    const controller = new AbortController();
+    const semaphore = new Semaphore(1);
+
+    const [, release] = await semaphore.acquire();
+    const pending = semaphore.runExclusive(() => void 0, { token: controller.signal });
+
+    controller.abort();
+
+    const error = await pending.catch(err => err);
+    expect(isCancellationError(error)).toBe(true);
+
+    release();
+    expect(semaphore.getStats().queueLength).toBe(0);
+  });
+
+  test('should accept tokens without throwIfCancellationRequested', async () => {
+    const plain: ICancellationToken = {
+      isCancellationRequested: false,
+      onCancellationRequested: () => ({ dispose() { } }),
+    };
+
+    await expect(new Bulkhead({ maxConcurrent: 1 }).execute(() => 1, plain)).resolves.toBe(1);
+    await expect(Async.reduce([1, 2, 3], (sum, item) => sum + item, 0, { token: plain })).resolves.toBe(6);
+    await expect(Async.map([1, 2], item => item * 2, { token: plain })).resolves.toEqual([2, 4]);
+
+    const cancelled: ICancellationToken = { ...plain, isCancellationRequested: true, reason: 'gone' };
+
+    expect(() => throwIfCancelled(cancelled)).toThrow(CancellationError);
+    await expect(Async.reduce([1], (sum, item) => sum + item, 0, { token: cancelled })).rejects.toThrow(CancellationError);
+  });
+});
+
+
+describe('CancellationTokenSource', () => {
+  test('should cancel on the clock it is given', async () => {
+    const clock = new VirtualClock(1000);
+
+    const timeout = CancellationTokenSource.withTimeout(100, undefined, clock);
+    const deadline = CancellationTokenSource.withDeadline(1050, undefined, clock);
+
+    await clock.advanceBy(50);
+
+    expect(deadline.token.isCancellationRequested).toBe(true);
+    expect(timeout.token.isCancellationRequested).toBe(false);
+
+    await clock.advanceBy(50);
+    expect(timeout.token.isCancellationRequested).toBe(true);
+  });
+
+  test('should call late listeners on the installed clock', async () => {
+    const clock = new VirtualClock();
+    const installation = clock.install();
+
+    try {
+      const source = new CancellationTokenSource();
+      source.cancel('late');
+
+      const listener = jest.fn();
+
+      source.token.onCancellationRequested(listener);
+      CancellationToken.Cancelled.onCancellationRequested(listener);
+
+      expect(clock.pending).toBe(2);
+      await clock.runAllPending();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledWith('late');
+    } finally {
+      installation.dispose();
+    }
+  });
+});
@@ -1,7 +1,8 @@
-import { EventLoop } from '@ts-overflow/async';
 import { IDisposable, Disposable } from '@rapid-d-kit/disposable';
 
-import { WeakEventEmitter } from './event-emitter';
+import { Emitter } from './events';
+import { DefaultClock, IClock } from './clock';
+import { ErrorCode, Exception } from './@internals/errors';
 
 
 /**
@@ -35,13 +36,68 @@ export interface ICancellationToken {
 	 * @event
 	 */
 	readonly onCancellationRequested: CancellationRequestListener;
+
+	/**
+	 * The reason given when cancellation was requested, if any.
+	 */
+	readonly reason?: any;
+
+	/**
+	 * Throws a `CancellationError` carrying the cancellation reason if cancellation has been requested.
+	 * Optional, so use `throwIfCancelled` on tokens coming from elsewhere.
+	 */
+	throwIfCancellationRequested?(): void;
+}
+
+
+/**
+ * Error thrown when an operation stops because cancellation was requested.
+ */
+export class CancellationError extends Exception {
+  public override readonly name: string = 'CancellationError';
+
+  /**
+   * Constructs a CancellationError.
+   *
+   * @param reason - The reason given when cancellation was requested.
+   * @param message - Optional error message.
+   */
+  public constructor(public readonly reason?: any, message: string = 'The operation was cancelled') {
+    super(message, 'ERR_TOKEN_CANCELLED');
+  }
+}
+
+/**
+ * Checks if the provided argument is an error caused by a cancellation, rather than by a real failure:
+ * a `CancellationError`, an `ERR_TOKEN_CANCELLED` exception or an `AbortError`.
+ *
+ * @param err - The error to check.
+ * @returns {boolean} `true` if `err` signals a cancellation, otherwise `false`.
+ */
+export function isCancellationError(err: unknown): boolean {
+  if(err instanceof CancellationError) return true;
+  if(err instanceof Exception) return err.code === ErrorCode.for('ERR_TOKEN_CANCELLED').getCode();
+
+  return typeof err === 'object' && !!err && (<Error>err).name === 'AbortError';
 }
 
 
 const shortcutEvent = Object.freeze(function (callback: (...args: any[]) => any, context?: any): IDisposable {
-  return EventLoop.immediate(callback.bind(context));
+  return DefaultClock.setImmediate(callback.bind(context));
 });
 
+/**
+ * Throws a `CancellationError` carrying the cancellation reason if cancellation has been requested,
+ * whether or not the token implements `throwIfCancellationRequested`.
+ *
+ * @param token - The token to check.
+ */
+export function throwIfCancelled(token?: ICancellationToken | null): void {
+  if(token?.isCancellationRequested) {
+    throw new CancellationError(token.reason);
+  }
+}
+
 /**
  * Checks if the provided argument is an ICancellationToken.
  *
@@ -58,23 +114,206 @@ export function isCancellationToken(arg: unknown): arg is ICancellationToken {
 }
 
 
+/**
+ * Checks if the provided argument is an AbortSignal.
+ *
+ * @param arg - The object to check.
+ * @returns {boolean} `true` if `arg` is an AbortSignal, otherwise `false`.
+ */
+export function isAbortSignal(arg: unknown): arg is AbortSignal {
+  if(typeof arg !== 'object' || !arg || Array.isArray(arg)) return false;
+
+  const candidate = (<AbortSignal>arg);
+
+  return typeof candidate.aborted === 'boolean' &&
+    typeof candidate.addEventListener === 'function' &&
+    typeof candidate.removeEventListener === 'function';
+}
+
+
+const _signalTokens: WeakMap<AbortSignal, ICancellationToken> = new WeakMap();
+const _tokenSignals: WeakMap<ICancellationToken, AbortSignal> = new WeakMap();
+
 // eslint-disable-next-line @typescript-eslint/no-namespace
 export namespace CancellationToken {
   export const None = Object.freeze<ICancellationToken>({
     isCancellationRequested: false,
     onCancellationRequested: () => Object.freeze<IDisposable>({ dispose() { } }),
+    throwIfCancellationRequested() { },
   });
   
   export const Cancelled = Object.freeze<ICancellationToken>({
     isCancellationRequested: true,
     onCancellationRequested: shortcutEvent,
+    throwIfCancellationRequested() {
+      throw new CancellationError();
+    },
   });
+
+  /**
+   * Creates a cancellation token that is cancelled as soon as any of the given tokens is, with its reason.
+   * With no token at all, the returned token is never cancelled.
+   *
+   * The linked token stops following the given tokens once cancelled, or once disposed of,
+   * which long-lived tokens need when the linked token is done with before being cancelled.
+   *
+   * @param tokens - The tokens to follow.
+   * @returns {ICancellationToken & IDisposable} The linked token.
+   */
+  export function any(...tokens: ICancellationToken[]): ICancellationToken & IDisposable {
+    const source = new CancellationTokenSource();
+    const listeners: IDisposable[] = [];
+
+    const cancelled = tokens.find(token => token.isCancellationRequested);
+
+    if(cancelled) {
+      source.cancel(cancelled.reason);
+      return _linked(source.token, listeners);
+    }
+
+    for(const token of tokens) {
+      token.onCancellationRequested(reason => {
+        _disposeAll(listeners);
+        source.cancel(reason);
+      }, null, listeners);
+    }
+
+    return _linked(source.token, listeners);
+  }
+
+  /**
+   * Creates a cancellation token that is cancelled once every given token is, with the reason of the last one.
+   * With no token at all, the returned token is never cancelled.
+   *
+   * Like with `any`, disposing of the linked token stops following the given tokens.
+   *
+   * @param tokens - The tokens to follow.
+   * @returns {ICancellationToken & IDisposable} The linked token.
+   */
+  export function all(...tokens: ICancellationToken[]): ICancellationToken & IDisposable {
+    const source = new CancellationTokenSource();
+    const listeners: IDisposable[] = [];
+
+    if(tokens.length === 0) return _linked(source.token, listeners);
+
+    let remaining = 0;
+
+    for(const token of tokens) {
+      if(token.isCancellationRequested) continue;
+
+      remaining++;
+
+      token.onCancellationRequested(reason => {
+        if(--remaining === 0) {
+          _disposeAll(listeners);
+          source.cancel(reason);
+        }
+      }, null, listeners);
+    }
+
+    if(remaining === 0) {
+      source.cancel(tokens[tokens.length - 1].reason);
+    }
+
+    return _linked(source.token, listeners);
+  }
+
+  /**
+   * Creates a cancellation token that is cancelled when the signal aborts, with the abort reason.
+   *
+   * @param signal - The signal to follow.
+   * @returns {ICancellationToken} The token following the signal.
+   */
+  export function fromAbortSignal(signal: AbortSignal): ICancellationToken {
+    // A single token follows each signal, so reusing a signal does not pile up abort listeners
+    let token = _signalTokens.get(signal);
+    if(token) return token;
+
+    const source = new CancellationTokenSource();
+
+    if(signal.aborted) {
+      source.cancel(signal.reason);
+    } else {
+      signal.addEventListener('abort', () => source.cancel(signal.reason), { once: true });
+    }
+
+    token = source.token;
+    _signalTokens.set(signal, token);
+
+    return token;
+  }
+
+  /**
+   * Creates an AbortSignal that aborts when the token is cancelled, with the cancellation reason.
+   *
+   * @param token - The token to follow.
+   * @returns {AbortSignal} The signal following the token.
+   */
+  export function toAbortSignal(token: ICancellationToken): AbortSignal {
+    // A single signal follows each token, so converting a long-lived token again does not pile up listeners
+    let signal = _tokenSignals.get(token);
+    if(signal) return signal;
+
+    const controller = new AbortController();
+
+    if(token.isCancellationRequested) {
+      controller.abort(token.reason);
+    } else {
+      let listener: IDisposable | null = null;
+
+      listener = token.onCancellationRequested(reason => {
+        listener?.dispose();
+        controller.abort(reason);
+      });
+    }
+
+    signal = controller.signal;
+    _tokenSignals.set(token, signal);
+
+    return signal;
+  }
+
+  /**
+   * Normalizes either kind of cancellation primitive into a cancellation token.
+   *
+   * @param tokenOrSignal - A cancellation token, an AbortSignal or nothing.
+   * @returns {ICancellationToken} The matching token, or `CancellationToken.None`.
+   */
+  export function from(tokenOrSignal?: ICancellationToken | AbortSignal | null): ICancellationToken {
+    if(!tokenOrSignal) return None;
+    return isAbortSignal(tokenOrSignal) ? fromAbortSignal(tokenOrSignal) : tokenOrSignal;
+  }
 }
 
 
+function _linked(token: ICancellationToken, listeners: IDisposable[]): ICancellationToken & IDisposable {
+  return Object.freeze<ICancellationToken & IDisposable>({
+    get isCancellationRequested() {
+      return token.isCancellationRequested;
+    },
+
+    get reason() {
+      return token.reason;
+    },
+
+    onCancellationRequested: (listener, thisArgs, disposables) => token.onCancellationRequested(listener, thisArgs, disposables),
+    throwIfCancellationRequested: () => throwIfCancelled(token),
+    dispose: () => _disposeAll(listeners),
+  });
+}
+
+function _disposeAll(listeners: IDisposable[]): void {
+  for(const listener of listeners.splice(0)) {
+    listener.dispose();
+  }
+}
+
+
+
 class MutableToken extends Disposable implements ICancellationToken {
   private _isCancelled: boolean = false;
-  private _emitter: WeakEventEmitter | null = null;
+  private _reason?: any = undefined;
+  private _emitter: Emitter<any> | null = null;
 
   /**
    * Returns whether cancellation has been requested.
@@ -83,26 +322,33 @@ class MutableToken extends Disposable implements ICancellationToken {
     return this._isCancelled;
   }
 
+  /**
+   * Returns the reason given when cancellation was requested, if any.
+   */
+  public get reason(): any {
+    return this._reason;
+  }
+
   /**
    * Returns an event listener for cancellation requests. If cancellation has been requested, returns an immediate event.
    */
   public get onCancellationRequested(): CancellationRequestListener {
-    if(this._isCancelled) return shortcutEvent;
+    if(this._isCancelled) return this._shortcutEvent();
 
     if(!this._emitter) {
-      this._emitter = new WeakEventEmitter();
+      this._emitter = new Emitter();
     }
 
     return ((listener, thisArgs, disposables) => {
-      if(!this._isCancelled) return this._emitter?.addListener('cancellationrequest', listener, thisArgs);
+      if(!this._isCancelled && this._emitter) return this._emitter.event(listener, thisArgs, disposables);
+
+      const subscription = this._shortcutEvent()(listener, thisArgs);
 
       if(disposables && Array.isArray(disposables)) {
-        disposables.push(shortcutEvent(listener, thisArgs));
-        
-        for(const d of disposables) {
-          super._register(d);
-        }
-      } else return listener.call(thisArgs, void 0);
+        disposables.push(subscription);
+      }
+
+      return subscription;
     }) as CancellationRequestListener;
   }
 
@@ -115,38 +361,95 @@ class MutableToken extends Disposable implements ICancellationToken {
     if(this._isCancelled) return;
 
     this._isCancelled = true;
+    this._reason = reason;
     if(!this._emitter) return this.dispose();
 
-    this._emitter.fire('cancellationrequest', reason ?? void 0);
+    this._emitter.fire(reason ?? void 0);
     this.dispose();
   }
 
+  /**
+   * Throws a `CancellationError` carrying the cancellation reason if cancellation has been requested.
+   */
+  public throwIfCancellationRequested(): void {
+    if(this._isCancelled) {
+      throw new CancellationError(this._reason);
+    }
+  }
+
   /**
    * Disposes of the resources associated with the cancellation token.
    */
   public override dispose(): void {
-    if(this._emitter instanceof WeakEventEmitter) {
+    if(this._emitter instanceof Emitter) {
       this._emitter.dispose();
       this._emitter = null;
     }
 
     super.dispose();
   }
+
+  private _shortcutEvent(): CancellationRequestListener {
+    const reason = this._reason;
+    return (listener, thisArgs) => DefaultClock.setImmediate(() => listener.call(thisArgs, reason));
+  }
 }
 
 
 export class CancellationTokenSource {
   private _token?: ICancellationToken | null = null;
+  private readonly _parent?: ICancellationToken;
   private _parentListener?: IDisposable | null = null;
+  private _timer?: IDisposable | null = null;
 
   /**
-   * Constructs a CancellationTokenSource, optionally linked to a parent token to cascade cancellations.
+   * Creates a token source that cancels itself after `timeout` milliseconds, with an `ERR_TIMEOUT`
+   * exception as reason, or earlier if the parent token is cancelled.
    *
-   * @param _parent - Optional parent cancellation token.
+   * @param timeout - The number of milliseconds before cancellation.
+   * @param parent - Optional parent cancellation token.
+   * @param clock - The clock of the timeout, `DefaultClock` by default.
    */
-  public constructor(private readonly _parent?: ICancellationToken) {
-    if(!_parent) return;
-    this._parentListener = _parent.onCancellationRequested(this.cancel, this);
+  public static withTimeout(timeout: number, parent?: ICancellationToken | AbortSignal, clock: IClock = DefaultClock): CancellationTokenSource {
+    const source = new CancellationTokenSource(parent);
+
+    source._timer = clock.setTimeout(() => {
+      source._timer = null;
+      source.cancel(new Exception(`The operation did not complete within ${timeout}ms`, 'ERR_TIMEOUT'));
+    }, Math.max(0, timeout));
+
+    return source;
+  }
+
+  /**
+   * Creates a token source that cancels itself once `deadline` is reached, so every
+   * operation of a call tree sharing its token also shares the same deadline.
+   *
+   * @param deadline - The date, or the timestamp in milliseconds, at which cancellation is requested.
+   * @param parent - Optional parent cancellation token.
+   * @param clock - The clock the deadline is read on, `DefaultClock` by default.
+   */
+  public static withDeadline(deadline: Date | number, parent?: ICancellationToken | AbortSignal, clock: IClock = DefaultClock): CancellationTokenSource {
+    const timestamp = deadline instanceof Date ? deadline.getTime() : deadline;
+    return CancellationTokenSource.withTimeout(timestamp - clock.now(), parent, clock);
+  }
+
+  /**
+   * Constructs a CancellationTokenSource, optionally linked to a parent token or AbortSignal to cascade cancellations.
+   *
+   * @param parent - Optional parent cancellation token or AbortSignal.
+   */
+  public constructor(parent?: ICancellationToken | AbortSignal) {
+    if(!parent) return;
+
+    this._parent = CancellationToken.from(parent);
+
+    if(this._parent.isCancellationRequested) {
+      this.cancel(this._parent.reason);
+      return;
+    }
+
+    this._parentListener = this._parent.onCancellationRequested(this.cancel, this);
   }
 
   /**
@@ -174,8 +477,13 @@ export class CancellationTokenSource {
    * @param location - Optional stack trace location.
    */
   public cancel(reason?: any): void {
+    this._clearTimer();
+
     if(!this._token) {
-      this._token = CancellationToken.Cancelled;
+      const token = new MutableToken();
+      token.cancel(reason);
+
+      this._token = token;
     } else if(this._token instanceof MutableToken) {
       this._token.cancel(reason);
     }
@@ -192,6 +500,7 @@ export class CancellationTokenSource {
       this.cancel(cancellationReason);
     }
 
+    this._clearTimer();
     this._parentListener?.dispose();
 
     if(!this._token) {
@@ -200,4 +509,11 @@ export class CancellationTokenSource {
       this._token.dispose();
     }
   }
+
+  private _clearTimer(): void {
+    if(!this._timer) return;
+
+    this._timer.dispose();
+    this._timer = null;
+  }
 }
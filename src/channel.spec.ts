@@ -0,0 +1,138 @@
+import { Channel, select } from './channel';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource } from './cancellation';
+
+
+describe('Channel', () => {
+  test('should hand each value of an unbuffered channel over to a receiver', async () => {
+    const channel = new Channel<number>();
+    let sent = false;
+
+    const sending = channel.send(1).then(() => void (sent = true));
+    await Promise.resolve();
+
+    expect(sent).toBe(false);
+    await expect(channel.receive()).resolves.toBe(1);
+
+    await sending;
+    expect(sent).toBe(true);
+  });
+
+  test('should only make senders wait while the buffer is full', async () => {
+    const channel = new Channel<number>(1);
+
+    await channel.send(1);
+    expect(channel.trySend(2)).toBe(false);
+
+    const sending = channel.send(2);
+
+    await expect(channel.receive()).resolves.toBe(1);
+    await sending;
+
+    expect(channel.tryReceive()).toEqual({ ok: true, value: 2 });
+    expect(channel.tryReceive()).toEqual({ ok: false });
+  });
+
+  test('should reject the pending senders and receivers when closed', async () => {
+    const sendingChannel = new Channel<number>();
+    const receivingChannel = new Channel<number>();
+
+    const sender = sendingChannel.send(1).catch(err => err);
+    const receiver = receivingChannel.receive().catch(err => err);
+
+    sendingChannel.close();
+    receivingChannel.close();
+
+    expect((await sender).code).toBe(ErrorCode.for('ERR_RESOURCE_DISPOSED').getCode());
+    expect((await receiver).code).toBe(ErrorCode.for('ERR_END_OF_STREAM').getCode());
+    expect(() => sendingChannel.trySend(2)).toThrow();
+  });
+
+  test('should let the receivers drain the buffer once closed', async () => {
+    const channel = new Channel<number>(3);
+
+    await channel.send(1);
+    await channel.send(2);
+    channel.close();
+
+    await expect(channel.receive()).resolves.toBe(1);
+
+    const drained: number[] = [];
+
+    for await (const value of channel) {
+      drained.push(value);
+    }
+
+    expect(drained).toEqual([2]);
+    expect((await channel.receive().catch(err => err)).code).toBe(ErrorCode.for('ERR_END_OF_STREAM').getCode());
+  });
+
+  test('should reject a receiver whose token is cancelled and leave the others waiting', async () => {
+    const channel = new Channel<number>();
+    const source = new CancellationTokenSource();
+
+    const cancelled = channel.receive(source.token).catch(err => err);
+    const waiting = channel.receive();
+
+    source.cancel();
+    expect((await cancelled).code).toBe(ErrorCode.for('ERR_TOKEN_CANCELLED').getCode());
+
+    expect(channel.trySend(1)).toBe(true);
+    await expect(waiting).resolves.toBe(1);
+  });
+});
+
+describe('select', () => {
+  test('should pick the first ready case in the order listed', async () => {
+    const a = new Channel<string>(1);
+    const b = new Channel<string>(1);
+
+    await a.send('a');
+    await b.send('b');
+
+    await expect(select([{ receive: b }, { receive: a }])).resolves.toEqual({ index: 0, value: 'b', closed: false });
+    expect(a.size).toBe(1);
+  });
+
+  test('should go through a single case when several become ready', async () => {
+    const a = new Channel<string>();
+    const b = new Channel<string>();
+
+    const selected = select([{ receive: a }, { receive: b }]);
+
+    expect(a.trySend('a')).toBe(true);
+    expect(b.trySend('b')).toBe(false);
+
+    await expect(selected).resolves.toEqual({ index: 0, value: 'a', closed: false });
+  });
+
+  test('should send through a send case once a receiver comes', async () => {
+    const a = new Channel<string>();
+    const selected = select([{ send: a, value: 'sent' }]);
+
+    await expect(a.receive()).resolves.toBe('sent');
+    await expect(selected).resolves.toEqual({ index: 0, closed: false });
+  });
+
+  test('should report a receive case on a closed and drained channel', async () => {
+    const a = new Channel<string>();
+    const b = new Channel<string>();
+
+    const selected = select([{ receive: a }, { receive: b }]);
+    b.close();
+
+    await expect(selected).resolves.toEqual({ index: 1, closed: true });
+    expect(a.trySend('a')).toBe(false);
+  });
+
+  test('should withdraw every case once timed out', async () => {
+    const a = new Channel<string>();
+    const b = new Channel<string>();
+
+    const error = await select([{ receive: a }, { send: b, value: 'b' }], { timeout: 10 }).catch(err => err);
+
+    expect(error.code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+    expect(a.trySend('a')).toBe(false);
+    expect(b.tryReceive()).toEqual({ ok: false });
+  });
+});
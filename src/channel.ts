@@ -0,0 +1,366 @@
+import { assert } from '@rapid-d-kit/safe';
+
+import { ErrorCode, Exception } from './@internals/errors';
+import type { ICancellationToken } from './cancellation';
+import { insertSorted, watchWaiter, WaiterMessages } from './@internals/waiters';
+
+
+export type ChannelWaitOptions = {
+  priority?: number;
+  timeout?: number;
+  token?: ICancellationToken;
+};
+
+export type SelectCase<T = any> =
+  | { receive: Channel<T> }
+  | { send: Channel<T>; value: T };
+
+export type SelectResult<T = any> = {
+  /**
+   * The index of the case that was ready first.
+   */
+  index: number;
+
+  /**
+   * The value received, for a receive case.
+   */
+  value?: T;
+
+  /**
+   * Whether the case is a receive case whose channel was closed and drained.
+   */
+  closed: boolean;
+};
+
+
+type Sender<T> = {
+  value: T;
+  priority: number;
+  claim?(): boolean;
+  resolve(): void;
+  reject(reason?: unknown): void;
+};
+
+type Receiver<T> = {
+  priority: number;
+  claim?(): boolean;
+  resolve(value: T): void;
+  reject(reason?: unknown): void;
+};
+
+const WAITER_MESSAGES: WaiterMessages = {
+  timeout: timeout => `Timed out after waiting ${timeout}ms on the channel`,
+  cancelled: 'Async execution of channel method was cancelled by token',
+};
+
+
+/**
+ * A queue between producers and consumers. Without a buffer, each `send` waits for a `receive`
+ * to take its value; with one, `send` only waits while the buffer is full.
+ *
+ * Waiting senders and receivers are served by priority, then in arrival order. Once closed, the values
+ * left in the buffer can still be received, after which receiving rejects with an `ERR_END_OF_STREAM` exception.
+ */
+export class Channel<T> implements AsyncIterable<T> {
+  #closed: boolean = false;
+  #buffer: T[] = [];
+  #senders: Sender<T>[] = [];
+  #receivers: Receiver<T>[] = [];
+
+  /**
+   * Constructs a Channel.
+   *
+   * @param _capacity - The number of values buffered without a receiver. Defaults to an unbuffered channel.
+   */
+  public constructor(private readonly _capacity: number = 0) {
+    assert(typeof _capacity === 'number' && _capacity >= 0 && (Number.isInteger(_capacity) || _capacity === Infinity));
+  }
+
+  public get capacity(): number {
+    return this._capacity;
+  }
+
+  /**
+   * The number of buffered values.
+   */
+  public get size(): number {
+    return this.#buffer.length;
+  }
+
+  public get closed(): boolean {
+    return this.#closed;
+  }
+
+  public send(value: T, token?: ICancellationToken): Promise<void>;
+  public send(value: T, options?: ChannelWaitOptions): Promise<void>;
+  public send(value: T, tokenOrOptions?: ICancellationToken | ChannelWaitOptions): Promise<void> {
+    const options = _options(tokenOrOptions);
+
+    if(this.#closed)
+      return Promise.reject(_closedError());
+
+    if(options.token?.isCancellationRequested)
+      return Promise.reject(new Exception(WAITER_MESSAGES.cancelled, 'ERR_TOKEN_CANCELLED'));
+
+    if(this.#offer(value))
+      return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const sender: Sender<T> = { value, priority: options.priority ?? 0, resolve, reject };
+
+      insertSorted(this.#senders, sender);
+      watchWaiter(sender, reject, options, () => _remove(this.#senders, sender), WAITER_MESSAGES);
+    });
+  }
+
+  /**
+   * Sends `value` only if it can be done right away.
+   *
+   * @returns {boolean} `true` if the value was taken by a receiver or buffered, otherwise `false`.
+   */
+  public trySend(value: T): boolean {
+    if(this.#closed) throw _closedError();
+    return this.#offer(value);
+  }
+
+  public receive(token?: ICancellationToken): Promise<T>;
+  public receive(options?: ChannelWaitOptions): Promise<T>;
+  public receive(tokenOrOptions?: ICancellationToken | ChannelWaitOptions): Promise<T> {
+    const options = _options(tokenOrOptions);
+
+    if(options.token?.isCancellationRequested)
+      return Promise.reject(new Exception(WAITER_MESSAGES.cancelled, 'ERR_TOKEN_CANCELLED'));
+
+    const polled = this.#poll();
+
+    if(polled.ok)
+      return Promise.resolve(polled.value);
+
+    if(this.#closed)
+      return Promise.reject(_endOfStreamError());
+
+    return new Promise((resolve, reject) => {
+      const receiver: Receiver<T> = { priority: options.priority ?? 0, resolve, reject };
+
+      insertSorted(this.#receivers, receiver);
+      watchWaiter(receiver, reject, options, () => _remove(this.#receivers, receiver), WAITER_MESSAGES);
+    });
+  }
+
+  /**
+   * Receives a value only if one is available right away.
+   */
+  public tryReceive(): { ok: true; value: T } | { ok: false } {
+    return this.#poll();
+  }
+
+  /**
+   * Closes the channel: sending is no longer possible and the pending senders are rejected with an
+   * `ERR_RESOURCE_DISPOSED` exception, while the buffered values are left for the receivers to drain.
+   */
+  public close(): void {
+    if(this.#closed) return;
+    this.#closed = true;
+
+    const senders = this.#senders;
+    const receivers = this.#receivers;
+
+    this.#senders = [];
+    this.#receivers = [];
+
+    for(const sender of senders) {
+      if(!sender.claim || sender.claim()) {
+        sender.reject(_closedError());
+      }
+    }
+
+    // Receivers only wait on an empty buffer, so none of them will ever get a value
+    for(const receiver of receivers) {
+      if(!receiver.claim || receiver.claim()) {
+        receiver.reject(_endOfStreamError());
+      }
+    }
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while(true) {
+      try {
+        yield await this.receive();
+      } catch (err: any) {
+        if(_isEndOfStream(err)) return;
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Waits for the first of `cases` that can proceed, and only that one: the other cases neither send nor receive.
+   * Cases ready right away win in the order they are listed.
+   *
+   * A receive case on a closed and drained channel is ready, with `closed` set in the result.
+   * A send case on a closed channel rejects with an `ERR_RESOURCE_DISPOSED` exception.
+   */
+  public static select<T = any>(cases: readonly SelectCase<T>[], tokenOrOptions?: ICancellationToken | ChannelWaitOptions): Promise<SelectResult<T>> {
+    assert(cases.length > 0);
+    const options = _options(tokenOrOptions);
+
+    if(options.token?.isCancellationRequested)
+      return Promise.reject(new Exception(WAITER_MESSAGES.cancelled, 'ERR_TOKEN_CANCELLED'));
+
+    for(let index = 0; index < cases.length; index++) {
+      const current = cases[index];
+
+      if('receive' in current) {
+        const polled = current.receive.#poll();
+
+        if(polled.ok)
+          return Promise.resolve({ index, value: polled.value, closed: false });
+
+        if(current.receive.#closed)
+          return Promise.resolve({ index, closed: true });
+      } else {
+        if(current.send.#closed)
+          return Promise.reject(_closedError());
+
+        if(current.send.#offer(current.value))
+          return Promise.resolve({ index, closed: false });
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      let done = false;
+      const removers: (() => void)[] = [];
+
+      const settle = { resolve, reject };
+      const removeAll = () => removers.forEach(remove => remove());
+
+      // Called by a channel right before it hands a value over, so a single case ever goes through
+      const claim = () => {
+        if(done) return false;
+
+        done = true;
+        removeAll();
+
+        return true;
+      };
+
+      const priority = options.priority ?? 0;
+
+      cases.forEach((current, index) => {
+        if('receive' in current) {
+          const receiver: Receiver<T> = {
+            priority, claim,
+            resolve: value => settle.resolve({ index, value, closed: false }),
+            reject: err => _isEndOfStream(err) ? settle.resolve({ index, closed: true }) : settle.reject(err),
+          };
+
+          insertSorted(current.receive.#receivers, receiver);
+          removers.push(() => _remove(current.receive.#receivers, receiver));
+        } else {
+          const sender: Sender<T> = {
+            value: current.value,
+            priority, claim,
+            resolve: () => settle.resolve({ index, closed: false }),
+            reject: err => settle.reject(err),
+          };
+
+          insertSorted(current.send.#senders, sender);
+          removers.push(() => _remove(current.send.#senders, sender));
+        }
+      });
+
+      watchWaiter(settle, reject, options, () => {
+        done = true;
+        removeAll();
+      }, WAITER_MESSAGES);
+    });
+  }
+
+  #offer(value: T): boolean {
+    const receiver = _take(this.#receivers);
+
+    if(receiver) {
+      receiver.resolve(value);
+      return true;
+    }
+
+    if(this.#buffer.length < this._capacity) {
+      this.#buffer.push(value);
+      return true;
+    }
+
+    return false;
+  }
+
+  #poll(): { ok: true; value: T } | { ok: false } {
+    if(this.#buffer.length > 0) {
+      const value = this.#buffer.shift()!;
+      const sender = _take(this.#senders);
+
+      // A slot was freed, the longest waiting sender fills it
+      if(sender) {
+        this.#buffer.push(sender.value);
+        sender.resolve();
+      }
+
+      return { ok: true, value };
+    }
+
+    const sender = _take(this.#senders);
+
+    if(sender) {
+      sender.resolve();
+      return { ok: true, value: sender.value };
+    }
+
+    return { ok: false };
+  }
+}
+
+
+/**
+ * Waits for the first of `cases` that can proceed. See `Channel.select`.
+ */
+export function select<T = any>(cases: readonly SelectCase<T>[], tokenOrOptions?: ICancellationToken | ChannelWaitOptions): Promise<SelectResult<T>> {
+  return Channel.select(cases, tokenOrOptions);
+}
+
+
+function _options(tokenOrOptions?: ICancellationToken | ChannelWaitOptions): ChannelWaitOptions {
+  if(!tokenOrOptions) return {};
+  return 'isCancellationRequested' in tokenOrOptions ? { token: tokenOrOptions } : tokenOrOptions;
+}
+
+/**
+ * Dequeues the first waiter still interested, skipping the ones belonging to an already settled `select`.
+ */
+function _take<W extends { claim?(): boolean }>(queue: W[]): W | undefined {
+  while(queue.length > 0) {
+    const waiter = queue.shift()!;
+    if(!waiter.claim || waiter.claim()) return waiter;
+  }
+
+  return undefined;
+}
+
+function _remove<W>(queue: W[], waiter: W): void {
+  const index = queue.indexOf(waiter);
+
+  if(index >= 0) {
+    queue.splice(index, 1);
+  }
+}
+
+function _closedError(): Exception {
+  return new Exception('Cannot send on a closed channel', 'ERR_RESOURCE_DISPOSED');
+}
+
+function _endOfStreamError(): Exception {
+  return new Exception('The channel is closed and drained', 'ERR_END_OF_STREAM');
+}
+
+function _isEndOfStream(err: unknown): boolean {
+  return err instanceof Exception && err.code === ErrorCode.for('ERR_END_OF_STREAM').getCode();
+}
+
+export default Channel;
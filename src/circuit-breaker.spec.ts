@@ -0,0 +1,97 @@
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import { VirtualClock } from './testing';
+import CircuitBreaker from './circuit-breaker';
+import { ErrorCode } from './@internals/errors';
+
+
+describe('CircuitBreaker', () => {
+  let clock: VirtualClock;
+  let installation: IDisposable;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    installation = clock.install();
+  });
+
+  afterEach(() => {
+    installation.dispose();
+  });
+
+  const fail = () => Promise.reject(new Error('faulty'));
+  const succeed = () => Promise.resolve('ok');
+
+  test('should open after consecutive failures and reject right away', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const task = jest.fn(fail);
+
+    await expect(breaker.execute(task)).rejects.toThrow('faulty');
+    await expect(breaker.execute(task)).rejects.toThrow('faulty');
+
+    expect(breaker.state).toBe('open');
+
+    const error = await breaker.execute(task).catch(err => err);
+
+    expect(error.code).toBe(ErrorCode.for('ERR_CIRCUIT_OPEN').getCode());
+    expect(task).toHaveBeenCalledTimes(2);
+
+    breaker.dispose();
+  });
+
+  test('should close again once the probe calls succeeded', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 100 });
+    const states: string[] = [];
+
+    breaker.addListener('stateChange', state => void states.push(state));
+
+    await breaker.execute(fail).catch(() => void 0);
+    await clock.advanceBy(100);
+
+    expect(breaker.state).toBe('half-open');
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+
+    expect(states).toEqual(['open', 'half-open', 'closed']);
+    breaker.dispose();
+  });
+
+  test('should open again when a probe call fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 100 });
+
+    await breaker.execute(fail).catch(() => void 0);
+    await clock.advanceBy(100);
+
+    await breaker.execute(fail).catch(() => void 0);
+
+    expect(breaker.state).toBe('open');
+    breaker.dispose();
+  });
+
+  test('should open on the failure ratio of the window once the throughput is reached', async () => {
+    const breaker = new CircuitBreaker({ strategy: 'ratio', failureRatio: 0.5, windowSize: 4, minimumThroughput: 4 });
+
+    await breaker.execute(succeed);
+    await breaker.execute(succeed);
+    await breaker.execute(fail).catch(() => void 0);
+
+    expect(breaker.state).toBe('closed');
+
+    await breaker.execute(fail).catch(() => void 0);
+    expect(breaker.state).toBe('open');
+
+    breaker.dispose();
+  });
+
+  test('should refuse a window smaller than the minimum throughput', () => {
+    expect(() => new CircuitBreaker({ strategy: 'ratio', windowSize: 5, minimumThroughput: 10 })).toThrow();
+    expect(() => new CircuitBreaker({ windowSize: 5, minimumThroughput: 10 })).not.toThrow();
+  });
+
+  test('should not count the errors refused by isFailure', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, isFailure: () => false });
+
+    await breaker.execute(fail).catch(() => void 0);
+
+    expect(breaker.state).toBe('closed');
+    breaker.dispose();
+  });
+});
@@ -0,0 +1,212 @@
+import { assert } from '@rapid-d-kit/safe';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import { DefaultClock, IClock } from './clock';
+import { Policy, PolicyTask } from './policy';
+import { ErrorCode, Exception } from './@internals/errors';
+import { CancellationToken, ICancellationToken, isCancellationError, throwIfCancelled } from './cancellation';
+
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreakerOptions = {
+  /**
+   * - `consecutive`: the circuit opens after `failureThreshold` failures in a row.
+   * - `ratio`: the circuit opens once `failureRatio` of the last `windowSize` calls failed,
+   *   provided at least `minimumThroughput` calls were recorded, so the window must hold that many.
+   */
+  strategy?: 'consecutive' | 'ratio';
+  failureThreshold?: number;
+  failureRatio?: number;
+  windowSize?: number;
+  minimumThroughput?: number;
+
+  /**
+   * How long the circuit stays open before letting probe calls through, in milliseconds.
+   */
+  resetTimeout?: number;
+
+  /**
+   * The number of probe calls let through while half-open. The circuit closes once all of them
+   * succeeded, and opens again as soon as one of them fails.
+   */
+  halfOpenProbes?: number;
+
+  /**
+   * Whether an error counts as a failure. Cancellations never do.
+   */
+  isFailure?(error: unknown): boolean;
+  clock?: IClock;
+};
+
+
+/**
+ * Stops calling a failing dependency for a while: once too many calls failed the circuit opens
+ * and calls are rejected right away with an `ERR_CIRCUIT_OPEN` exception, until a few probe calls
+ * prove the dependency healthy again.
+ */
+export class CircuitBreaker extends Policy {
+  #state: CircuitState = 'closed';
+  #consecutiveFailures: number = 0;
+  #window: boolean[] = [];
+  #probes: number = 0;
+  #probeSuccesses: number = 0;
+  #timer: IDisposable | null = null;
+  readonly #options: Required<Omit<CircuitBreakerOptions, 'isFailure'>> & Pick<CircuitBreakerOptions, 'isFailure'>;
+
+  public constructor({
+    strategy = 'consecutive',
+    failureThreshold = 5,
+    failureRatio = 0.5,
+    windowSize = 20,
+    minimumThroughput = 10,
+    resetTimeout = 30_000,
+    halfOpenProbes = 1,
+    isFailure,
+    clock = DefaultClock,
+  }: CircuitBreakerOptions = {}) {
+    super();
+
+    assert(Number.isInteger(failureThreshold) && failureThreshold > 0);
+    assert(typeof failureRatio === 'number' && failureRatio > 0 && failureRatio <= 1);
+    assert(Number.isInteger(windowSize) && windowSize > 0);
+    assert(Number.isInteger(minimumThroughput) && minimumThroughput > 0);
+    assert(strategy !== 'ratio' || windowSize >= minimumThroughput);
+    assert(typeof resetTimeout === 'number' && resetTimeout >= 0);
+    assert(Number.isInteger(halfOpenProbes) && halfOpenProbes > 0);
+
+    this.#options = {
+      strategy, failureThreshold, failureRatio, windowSize,
+      minimumThroughput, resetTimeout, halfOpenProbes, isFailure, clock,
+    };
+  }
+
+  public get state(): CircuitState {
+    return this.#state;
+  }
+
+  public async execute<T>(task: PolicyTask<T>, token: ICancellationToken = CancellationToken.None): Promise<T> {
+    throwIfCancelled(token);
+
+    if(this.#state === 'open' || (this.#state === 'half-open' && this.#probes >= this.#options.halfOpenProbes)) {
+      const error = new Exception('The circuit is open', ErrorCode.for('ERR_CIRCUIT_OPEN').getCode());
+      this._events.emit('rejected', error);
+
+      throw error;
+    }
+
+    const probe = this.#state === 'half-open';
+
+    if(probe) {
+      this.#probes++;
+    }
+
+    try {
+      const result = await task(token);
+      this.#onSuccess(probe);
+
+      return result;
+    } catch (err: any) {
+      this.#onFailure(err, probe);
+      throw err;
+    }
+  }
+
+  /**
+   * Opens the circuit right away, as if the failure threshold was reached.
+   */
+  public trip(): void {
+    this.#transition('open');
+  }
+
+  /**
+   * Closes the circuit right away and forgets the recorded calls.
+   */
+  public reset(): void {
+    this.#transition('closed');
+  }
+
+  public override dispose(): void {
+    this.#clearTimer();
+    super.dispose();
+  }
+
+  #onSuccess(probe: boolean): void {
+    if(probe && this.#state === 'half-open') {
+      this.#probes--;
+
+      if(++this.#probeSuccesses >= this.#options.halfOpenProbes) {
+        this.#transition('closed');
+      }
+    } else if(this.#state === 'closed') {
+      this.#record(false);
+    }
+  }
+
+  #onFailure(error: unknown, probe: boolean): void {
+    const counts = !isCancellationError(error) && (this.#options.isFailure?.(error) ?? true);
+
+    if(probe && this.#state === 'half-open') {
+      this.#probes--;
+
+      if(counts) {
+        this.#transition('open');
+      }
+    } else if(counts && this.#state === 'closed' && this.#record(true)) {
+      this.#transition('open');
+    }
+  }
+
+  /**
+   * Records the outcome of a call made while closed.
+   *
+   * @returns {boolean} Whether the circuit should open.
+   */
+  #record(failed: boolean): boolean {
+    if(this.#options.strategy === 'consecutive') {
+      this.#consecutiveFailures = failed ? this.#consecutiveFailures + 1 : 0;
+      return this.#consecutiveFailures >= this.#options.failureThreshold;
+    }
+
+    this.#window.push(failed);
+
+    if(this.#window.length > this.#options.windowSize) {
+      this.#window.shift();
+    }
+
+    if(this.#window.length < this.#options.minimumThroughput) return false;
+
+    const failures = this.#window.filter(Boolean).length;
+    return failures / this.#window.length >= this.#options.failureRatio;
+  }
+
+  #transition(state: CircuitState): void {
+    const previous = this.#state;
+
+    this.#clearTimer();
+
+    this.#state = state;
+    this.#consecutiveFailures = 0;
+    this.#window = [];
+    this.#probes = 0;
+    this.#probeSuccesses = 0;
+
+    if(state === 'open') {
+      this.#timer = this.#options.clock.setTimeout(() => {
+        this.#timer = null;
+        this.#transition('half-open');
+      }, this.#options.resetTimeout);
+    }
+
+    if(state !== previous) {
+      this._events.emit('stateChange', state, previous);
+    }
+  }
+
+  #clearTimer(): void {
+    this.#timer?.dispose();
+    this.#timer = null;
+  }
+}
+
+export default CircuitBreaker;
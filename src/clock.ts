@@ -0,0 +1,74 @@
+import { EventLoop } from '@ts-overflow/async/event-loop';
+import { IDisposable, toDisposable } from '@rapid-d-kit/disposable';
+
+
+/**
+ * Interface representing a source of time, used by the time-based primitives
+ * so they can be driven by something other than the system clock.
+ */
+export interface IClock {
+  /**
+   * Returns the current time in milliseconds.
+   */
+  now(): number;
+
+  /**
+   * Schedules `callback` to run after `ms` milliseconds.
+   *
+   * @returns {IDisposable} A disposable object to cancel the scheduled callback.
+   */
+  setTimeout(callback: () => void, ms: number): IDisposable;
+
+  /**
+   * Schedules `callback` to run once the pending I/O callbacks ran.
+   * Clocks without it schedule a timeout of zero milliseconds instead.
+   *
+   * @returns {IDisposable} A disposable object to cancel the scheduled callback.
+   */
+  setImmediate?(callback: () => void): IDisposable;
+}
+
+
+/**
+ * The clock backed by `Date.now` and the global timers. Both are looked up on every call,
+ * so faked timers (e.g. Jest's) installed after this module was loaded are honored.
+ */
+export const SystemClock = Object.freeze<Required<IClock>>({
+  now: () => Date.now(),
+
+  setTimeout(callback, ms) {
+    const handle = setTimeout(callback, ms);
+    return toDisposable(() => clearTimeout(handle));
+  },
+
+  setImmediate(callback) {
+    return EventLoop.immediate(callback);
+  },
+});
+
+
+let _current: IClock = SystemClock;
+
+/**
+ * The clock the timers of this library run on, and the default `clock` option of its primitives.
+ * It forwards to `SystemClock` unless another clock is bound with `useClock`.
+ */
+export const DefaultClock = Object.freeze<Required<IClock>>({
+  now: () => _current.now(),
+  setTimeout: (callback, ms) => _current.setTimeout(callback, ms),
+  setImmediate: callback => _current.setImmediate?.(callback) ?? _current.setTimeout(callback, 0),
+});
+
+/**
+ * Binds `DefaultClock` to `clock` until the returned disposable is disposed.
+ */
+export function useClock(clock: IClock): IDisposable {
+  const previous = _current;
+  _current = clock;
+
+  return toDisposable(() => {
+    if(_current === clock) {
+      _current = previous;
+    }
+  });
+}
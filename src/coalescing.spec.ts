@@ -0,0 +1,231 @@
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import { VirtualClock } from './testing';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource, isCancellationError } from './cancellation';
+import { Delayer, Limiter, Sequencer, SequencerByKey, Throttler } from './coalescing';
+
+
+function deferred<T = void>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => void (resolve = r));
+
+  return { promise, resolve };
+}
+
+
+describe('Throttler', () => {
+  test('should only run the latest of the tasks queued meanwhile, sharing its result', async () => {
+    const throttler = new Throttler();
+    const gate = deferred<string>();
+    const superseded = jest.fn(() => 'superseded');
+
+    const first = throttler.queue(() => gate.promise);
+    const second = throttler.queue(superseded);
+    const third = throttler.queue(() => 'latest');
+
+    gate.resolve('first');
+
+    await expect(first).resolves.toBe('first');
+    await expect(Promise.all([second, third])).resolves.toEqual(['latest', 'latest']);
+
+    expect(superseded).not.toHaveBeenCalled();
+    expect(throttler.isActive).toBe(false);
+  });
+
+  test('should detach a caller whose token is cancelled and keep the task for the others', async () => {
+    const throttler = new Throttler();
+    const gate = deferred<string>();
+    const source = new CancellationTokenSource();
+
+    const detached = throttler.queue(() => gate.promise, source.token).catch(err => err);
+    source.cancel();
+
+    expect(isCancellationError(await detached)).toBe(true);
+
+    gate.resolve('done');
+    await expect(throttler.queue(() => 'next')).resolves.toBe('next');
+  });
+
+  test('should cancel the running task and reject the queued callers once disposed', async () => {
+    const throttler = new Throttler();
+    let cancelled = false;
+
+    const running = throttler.queue(token => new Promise<void>(resolve => {
+      token.onCancellationRequested(() => {
+        cancelled = true;
+        resolve();
+      });
+    }));
+
+    const queued = throttler.queue(() => 'queued').catch(err => err);
+    throttler.dispose();
+
+    await running;
+
+    expect(cancelled).toBe(true);
+    expect(isCancellationError(await queued)).toBe(true);
+    expect((await throttler.queue(() => 'late').catch(err => err)).code).toBe(ErrorCode.for('ERR_RESOURCE_DISPOSED').getCode());
+  });
+});
+
+describe('Delayer', () => {
+  let clock: VirtualClock;
+  let installation: IDisposable;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    installation = clock.install();
+  });
+
+  afterEach(() => {
+    installation.dispose();
+  });
+
+  test('should postpone the run on each trigger and run the latest task once', async () => {
+    const delayer = new Delayer<string>(100);
+
+    const first = delayer.trigger(() => 'first');
+    await clock.advanceBy(50);
+
+    const second = delayer.trigger(() => 'second');
+    await clock.advanceBy(50);
+
+    expect(delayer.isTriggered()).toBe(true);
+
+    await clock.advanceBy(50);
+    await expect(Promise.all([first, second])).resolves.toEqual(['second', 'second']);
+
+    expect(delayer.isTriggered()).toBe(false);
+  });
+
+  test('should reject the callers of a cancelled trigger', async () => {
+    const delayer = new Delayer<string>(100);
+    const task = jest.fn(() => 'task');
+
+    const pending = delayer.trigger(task).catch(err => err);
+    delayer.cancel();
+
+    expect(isCancellationError(await pending)).toBe(true);
+
+    await clock.runAllPending();
+    expect(task).not.toHaveBeenCalled();
+  });
+});
+
+describe('Sequencer', () => {
+  test('should run the tasks one after the other, whatever the previous ones did', async () => {
+    const sequencer = new Sequencer();
+    const gate = deferred();
+    const order: string[] = [];
+
+    const first = sequencer.queue(async () => {
+      await gate.promise;
+      order.push('first');
+      throw new Error('faulty');
+    });
+
+    const second = sequencer.queue(() => void order.push('second'));
+
+    gate.resolve();
+
+    await expect(first).rejects.toThrow('faulty');
+    await second;
+
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  test('should skip a task whose token is cancelled before its turn', async () => {
+    const sequencer = new Sequencer();
+    const gate = deferred();
+    const source = new CancellationTokenSource();
+    const skipped = jest.fn();
+
+    const first = sequencer.queue(() => gate.promise);
+    const second = sequencer.queue(skipped, source.token).catch(err => err);
+
+    source.cancel();
+    gate.resolve();
+
+    await first;
+
+    expect(isCancellationError(await second)).toBe(true);
+    expect(skipped).not.toHaveBeenCalled();
+  });
+});
+
+describe('SequencerByKey', () => {
+  test('should sequence the tasks of a key only and forget it once idle', async () => {
+    const sequencer = new SequencerByKey<string>();
+    const gate = deferred();
+    const order: string[] = [];
+
+    const a1 = sequencer.queue('a', async () => {
+      await gate.promise;
+      order.push('a1');
+    });
+
+    const a2 = sequencer.queue('a', () => void order.push('a2'));
+    const b = sequencer.queue('b', () => void order.push('b'));
+
+    await b;
+    expect(order).toEqual(['b']);
+
+    gate.resolve();
+    await Promise.all([a1, a2]);
+
+    expect(order).toEqual(['b', 'a1', 'a2']);
+
+    await Promise.resolve();
+    expect(sequencer.has('a')).toBe(false);
+  });
+});
+
+describe('Limiter', () => {
+  test('should bound the tasks running at once and resolve whenIdle once all of them settled', async () => {
+    const limiter = new Limiter(2);
+    const gates = [deferred(), deferred(), deferred()];
+    let running = 0;
+    let peak = 0;
+
+    const tasks = gates.map(gate => limiter.queue(async () => {
+      peak = Math.max(peak, ++running);
+      await gate.promise;
+      running--;
+    }));
+
+    expect(limiter.size).toBe(3);
+
+    gates.forEach(gate => gate.resolve());
+
+    await Promise.all(tasks);
+    await limiter.whenIdle();
+
+    expect(peak).toBe(2);
+    expect(limiter.size).toBe(0);
+  });
+
+  test('should cancel the tokens of every task once disposed', async () => {
+    const limiter = new Limiter(1);
+    const started = deferred();
+    let cancelled = false;
+
+    const running = limiter.queue(token => new Promise<void>(resolve => {
+      started.resolve();
+
+      token.onCancellationRequested(() => {
+        cancelled = true;
+        resolve();
+      });
+    }));
+
+    const queued = limiter.queue(() => 'queued').catch(err => err);
+
+    await started.promise;
+    limiter.dispose();
+
+    expect((await running.catch(err => err)).code).toBe(ErrorCode.for('ERR_TOKEN_CANCELLED').getCode());
+    expect((await queued).code).toBe(ErrorCode.for('ERR_TOKEN_CANCELLED').getCode());
+    expect(cancelled).toBe(true);
+  });
+});
@@ -0,0 +1,314 @@
+import { assert } from '@rapid-d-kit/safe';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import { Async } from './core';
+import Semaphore from './semaphore';
+import DeferredPromise from './deferred';
+import { Exception } from './@internals/errors';
+import { WaiterQueue } from './@internals/waiters';
+import { CancellationError, CancellationToken, CancellationTokenSource, ICancellationToken, throwIfCancelled } from './cancellation';
+
+
+export type CoalescedTask<T> = (token: ICancellationToken) => T | Promise<T>;
+
+
+/**
+ * Runs one task at a time. Tasks queued while one is running are coalesced:
+ * only the latest of them runs next, and all their callers share its result.
+ *
+ * The token given to a call only detaches that caller; the shared task keeps running for the others.
+ */
+export class Throttler implements IDisposable {
+  #disposed: boolean = false;
+  #active: Promise<unknown> | null = null;
+  #queued: DeferredPromise<unknown> | null = null;
+  #queuedTask: CoalescedTask<unknown> | null = null;
+  #source: CancellationTokenSource = new CancellationTokenSource();
+
+  public get isActive(): boolean {
+    return !!this.#active;
+  }
+
+  public queue<T>(task: CoalescedTask<T>, token?: ICancellationToken): Promise<T> {
+    if(this.#disposed)
+      return Promise.reject(new Exception('Cannot queue a task in a disposed throttler', 'ERR_RESOURCE_DISPOSED'));
+
+    if(token?.isCancellationRequested)
+      return Promise.reject(new CancellationError(token.reason));
+
+    if(!this.#active)
+      return _bindToken(this.#start(task), token);
+
+    // The task queued before is superseded and will never run
+    this.#queuedTask = task;
+
+    if(!this.#queued) {
+      this.#queued = new DeferredPromise();
+    }
+
+    return _bindToken(this.#queued.promise as Promise<T>, token);
+  }
+
+  /**
+   * Cancels the running task's token and rejects the callers waiting for the queued one.
+   */
+  public dispose(): void {
+    if(this.#disposed) return;
+
+    this.#disposed = true;
+    this.#source.cancel();
+
+    this.#queued?.cancel();
+    this.#queued = null;
+    this.#queuedTask = null;
+  }
+
+  #start<T>(task: CoalescedTask<T>): Promise<T> {
+    const active = _run(task, this.#source.token);
+    this.#active = active;
+
+    const next = () => {
+      this.#active = null;
+
+      const queued = this.#queued;
+      const queuedTask = this.#queuedTask;
+
+      this.#queued = null;
+      this.#queuedTask = null;
+
+      if(!queued || !queuedTask) return;
+
+      this.#start(queuedTask).then(value => queued.complete(value), err => queued.error(err));
+    };
+
+    active.then(next, next);
+    return active;
+  }
+}
+
+
+/**
+ * Debounces the tasks it is given: each trigger postpones the run and replaces the task,
+ * and every caller since the last run gets the result of the latest task.
+ */
+export class Delayer<T> implements IDisposable {
+  #disposed: boolean = false;
+  #task: CoalescedTask<T> | null = null;
+  #completion: DeferredPromise<T> | null = null;
+  #timer: CancellationTokenSource | null = null;
+  #source: CancellationTokenSource = new CancellationTokenSource();
+
+  public constructor(public readonly defaultDelay: number) {
+    assert(typeof defaultDelay === 'number' && defaultDelay >= 0);
+  }
+
+  public trigger(task: CoalescedTask<T>, delay: number = this.defaultDelay, token?: ICancellationToken): Promise<T> {
+    if(this.#disposed)
+      return Promise.reject(new Exception('Cannot trigger a task in a disposed delayer', 'ERR_RESOURCE_DISPOSED'));
+
+    if(token?.isCancellationRequested)
+      return Promise.reject(new CancellationError(token.reason));
+
+    this.#task = task;
+    this.#cancelTimer();
+
+    if(!this.#completion) {
+      this.#completion = new DeferredPromise();
+    }
+
+    const completion = this.#completion;
+    const timer = this.#timer = new CancellationTokenSource();
+
+    Async.delay(delay, timer.token).then(() => {
+      const task = this.#task!;
+
+      this.#timer = null;
+      this.#task = null;
+      this.#completion = null;
+
+      timer.dispose();
+      _run(task, this.#source.token).then(value => completion.complete(value), err => completion.error(err));
+    }, () => void 0);
+
+    return _bindToken(completion.promise, token);
+  }
+
+  /**
+   * Whether a task is waiting for its delay to elapse.
+   */
+  public isTriggered(): boolean {
+    return !!this.#timer;
+  }
+
+  /**
+   * Drops the pending task and rejects its callers with a `CancellationError`.
+   */
+  public cancel(): void {
+    this.#cancelTimer();
+    this.#task = null;
+
+    this.#completion?.cancel();
+    this.#completion = null;
+  }
+
+  public dispose(): void {
+    if(this.#disposed) return;
+
+    this.#disposed = true;
+    this.cancel();
+    this.#source.cancel();
+  }
+
+  #cancelTimer(): void {
+    if(!this.#timer) return;
+
+    this.#timer.cancel();
+    this.#timer.dispose();
+    this.#timer = null;
+  }
+}
+
+
+/**
+ * Runs the tasks one after the other, in the order they were queued, whether the previous ones failed or not.
+ * A task whose token is cancelled before its turn is skipped.
+ */
+export class Sequencer {
+  #current: Promise<unknown> = Promise.resolve();
+
+  public queue<T>(task: CoalescedTask<T>, token?: ICancellationToken): Promise<T> {
+    const run = this.#current.then(() => _run(task, token));
+    this.#current = run.then(() => void 0, () => void 0);
+
+    return _bindToken(run, token);
+  }
+}
+
+
+/**
+ * A `Sequencer` per key: tasks sharing a key run one after the other, tasks of different keys run independently.
+ */
+export class SequencerByKey<K> {
+  #tails: Map<K, Promise<unknown>> = new Map();
+
+  public has(key: K): boolean {
+    return this.#tails.has(key);
+  }
+
+  public queue<T>(key: K, task: CoalescedTask<T>, token?: ICancellationToken): Promise<T> {
+    const previous = this.#tails.get(key) ?? Promise.resolve();
+    const run = previous.then(() => _run(task, token));
+
+    const tail = run.then(() => void 0, () => void 0).then(() => {
+      if(this.#tails.get(key) === tail) {
+        this.#tails.delete(key);
+      }
+    });
+
+    this.#tails.set(key, tail);
+    return _bindToken(run, token);
+  }
+}
+
+
+/**
+ * Runs at most `maxDegreeOfParallelism` tasks at once, queueing the others.
+ */
+export class Limiter implements IDisposable {
+  #size: number = 0;
+  #disposed: boolean = false;
+  #semaphore: Semaphore;
+  #idle: WaiterQueue = new WaiterQueue();
+  #sources: Set<CancellationTokenSource> = new Set();
+
+  public constructor(maxDegreeOfParallelism: number) {
+    assert(typeof maxDegreeOfParallelism === 'number' && Number.isInteger(maxDegreeOfParallelism) && maxDegreeOfParallelism > 0);
+    this.#semaphore = new Semaphore(maxDegreeOfParallelism);
+  }
+
+  /**
+   * The number of tasks queued or running.
+   */
+  public get size(): number {
+    return this.#size;
+  }
+
+  public queue<T>(task: CoalescedTask<T>, token?: ICancellationToken): Promise<T> {
+    if(this.#disposed)
+      return Promise.reject(new Exception('Cannot queue a task in a disposed limiter', 'ERR_RESOURCE_DISPOSED'));
+
+    const source = new CancellationTokenSource(token);
+
+    this.#size++;
+    this.#sources.add(source);
+
+    const promise = this.#semaphore.runExclusive(() => task(source.token), { token: source.token });
+
+    const done = () => {
+      source.dispose();
+      this.#sources.delete(source);
+
+      if(--this.#size === 0) {
+        this.#idle.resolveAll();
+      }
+    };
+
+    promise.then(done, done);
+    return promise;
+  }
+
+  /**
+   * Resolves once no task is queued or running anymore.
+   */
+  public whenIdle(token?: ICancellationToken): Promise<void> {
+    if(this.#size === 0)
+      return Promise.resolve();
+
+    return this.#idle.wait(token);
+  }
+
+  /**
+   * Cancels the tokens of every queued and running task.
+   */
+  public dispose(): void {
+    if(this.#disposed) return;
+
+    this.#disposed = true;
+
+    for(const source of [...this.#sources]) {
+      source.cancel();
+    }
+  }
+}
+
+
+function _run<T>(task: CoalescedTask<T>, token?: ICancellationToken): Promise<T> {
+  return new Promise<T>(resolve => {
+    throwIfCancelled(token);
+    resolve(task(token ?? CancellationToken.None));
+  });
+}
+
+/**
+ * Lets a single caller stop waiting for a promise shared with others.
+ */
+function _bindToken<T>(promise: Promise<T>, token?: ICancellationToken): Promise<T> {
+  if(!token) return promise;
+
+  if(token.isCancellationRequested) {
+    promise.catch(() => void 0);
+    return Promise.reject(new CancellationError(token.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const listener = token.onCancellationRequested(reason => reject(new CancellationError(reason)));
+
+    promise.then(value => {
+      listener.dispose();
+      resolve(value);
+    }, err => {
+      listener.dispose();
+      reject(err);
+    });
+  });
+}
@@ -0,0 +1,64 @@
+import Mutex from './mutex';
+import Condition from './condition';
+import { CancellationTokenSource } from './cancellation';
+
+
+describe('Condition', () => {
+  test('should unlock the mutex of runExclusive once the callback returns', async () => {
+    const mutex = new Mutex();
+    const condition = new Condition(mutex);
+
+    const waiting = mutex.runExclusive(async () => {
+      await condition.wait();
+      expect(mutex.isLocked()).toBe(true);
+    });
+
+    await mutex.runExclusive(() => {
+      expect(condition.waiting).toBe(1);
+      condition.notify();
+    });
+
+    await waiting;
+    expect(mutex.isLocked()).toBe(false);
+  });
+
+  test('should keep the guard of acquire valid across the wait', async () => {
+    const mutex = new Mutex();
+    const condition = new Condition(mutex);
+
+    const release = await mutex.acquire();
+    const waiting = condition.wait();
+
+    expect(mutex.isLocked()).toBe(false);
+
+    await mutex.runExclusive(() => void condition.notifyAll());
+    await waiting;
+
+    expect(mutex.isLocked()).toBe(true);
+
+    release();
+    expect(mutex.isLocked()).toBe(false);
+  });
+
+  test('should lock the mutex back when the token is cancelled', async () => {
+    const mutex = new Mutex({ reentrant: true });
+    const condition = new Condition(mutex);
+    const source = new CancellationTokenSource();
+
+    const waiting = mutex.runExclusive(async () => {
+      await expect(condition.wait(source.token)).rejects.toThrow();
+      expect(mutex.isLocked()).toBe(true);
+    });
+
+    await mutex.runExclusive(() => source.cancel());
+    await waiting;
+
+    expect(mutex.isLocked()).toBe(false);
+    expect(condition.waiting).toBe(0);
+  });
+
+  test('should refuse to wait without holding the mutex', async () => {
+    const condition = new Condition(new Mutex());
+    await expect(condition.wait()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,53 @@
+import { Exception } from './@internals/errors';
+import { WaiterQueue } from './@internals/waiters';
+
+import type { Mutex } from './mutex';
+import type { ICancellationToken } from './cancellation';
+
+
+/**
+ * A condition variable bound to a mutex: `wait` releases the mutex while waiting for a notification
+ * and acquires it back before returning, so the caller holds the mutex on both sides of the call.
+ */
+export class Condition {
+  #waiters: WaiterQueue = new WaiterQueue();
+
+  public constructor(private readonly _mutex: Mutex) { }
+
+  public get waiting(): number {
+    return this.#waiters.size;
+  }
+
+  /**
+   * Waits for a notification. Must be called while holding the mutex.
+   * The mutex is held again when the promise settles, even if the token was cancelled.
+   */
+  public async wait(token?: ICancellationToken): Promise<void> {
+    if(!this._mutex.isLocked()) {
+      throw new Exception('The mutex of a condition must be held to wait on it', 'ERR_UNSUPPORTED_OPERATION');
+    }
+
+    // The caller's guard, or the one of `runExclusive`, releases the mutex once locked back
+    await this._mutex.releaseUntil(() => this.#waiters.wait(token));
+  }
+
+  /**
+   * Wakes up the longest waiting caller, if any.
+   *
+   * @returns {boolean} `true` if a caller was woken up, otherwise `false`.
+   */
+  public notify(): boolean {
+    return this.#waiters.resolveOne();
+  }
+
+  /**
+   * Wakes up every waiting caller.
+   *
+   * @returns {number} The number of callers woken up.
+   */
+  public notifyAll(): number {
+    return this.#waiters.resolveAll();
+  }
+}
+
+export default Condition;
@@ -0,0 +1,221 @@
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import { Async } from './core';
+import { VirtualClock } from './testing';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource, ICancellationToken } from './cancellation';
+
+
+describe('Async', () => {
+  let clock: VirtualClock;
+  let installation: IDisposable;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    installation = clock.install();
+  });
+
+  afterEach(() => {
+    installation.dispose();
+  });
+
+  test('should resolve a delay once its time has passed', async () => {
+    let resolved = false;
+    const promise = Async.delay(100).then(() => void (resolved = true));
+
+    await clock.advanceBy(99);
+    expect(resolved).toBe(false);
+
+    await clock.advanceBy(1);
+    await promise;
+
+    expect(resolved).toBe(true);
+  });
+
+  test('should clear the timer of a cancelled delay', async () => {
+    const source = new CancellationTokenSource();
+    const promise = Async.delay(100, source.token);
+
+    source.cancel();
+
+    await expect(promise).rejects.toThrow();
+    expect(clock.pending).toBe(0);
+  });
+
+  test('should time out and cancel the work', async () => {
+    const tokens: ICancellationToken[] = [];
+
+    const promise = Async.timeout(token => {
+      tokens.push(token);
+      return new Promise<never>(() => void 0);
+    }, 100).catch(err => err);
+
+    await clock.advanceBy(100);
+
+    expect((await promise).code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+    expect(tokens[0].isCancellationRequested).toBe(true);
+  });
+
+  test('should resolve with the work completing in time', async () => {
+    const promise = Async.timeout(Async.delay(50).then(() => 'done'), 100);
+
+    await clock.advanceBy(50);
+
+    await expect(promise).resolves.toBe('done');
+    expect(clock.pending).toBe(0);
+  });
+
+  test('should retry with an exponential delay', async () => {
+    const delays: number[] = [];
+    const fn = jest.fn((attempt: number) => {
+      if(attempt < 3) throw new Error(`attempt ${attempt}`);
+      return 'ok';
+    });
+
+    const promise = Async.retry(fn, { minDelay: 100, onRetry: (_, __, delay) => void delays.push(delay) });
+
+    await clock.advanceBy(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await clock.advanceBy(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    await clock.advanceBy(200);
+
+    await expect(promise).resolves.toBe('ok');
+    expect(delays).toEqual([100, 200]);
+  });
+
+  test('should report every error once the retries are exhausted', async () => {
+    const promise = Async.retry(attempt => Promise.reject(new Error(`attempt ${attempt}`)), { retries: 2, minDelay: 10 }).catch(err => err);
+
+    await clock.runAllPending();
+    const error = await promise;
+
+    expect(error.context.attempts).toBe(3);
+    expect(error.context.errors).toHaveLength(3);
+  });
+
+  test('should not retry the errors refused by shouldRetry', async () => {
+    const fn = jest.fn(() => Promise.reject(new Error('fatal')));
+
+    await expect(Async.retry(fn, { shouldRetry: () => false })).rejects.toThrow('fatal');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('should map with a bounded concurrency, keeping the input order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const promise = Async.map([30, 10, 20, 5], async (ms, index) => {
+      peak = Math.max(peak, ++running);
+      await Async.delay(ms);
+      running--;
+
+      return index;
+    }, { concurrency: 2 });
+
+    await clock.runAllPending();
+
+    await expect(promise).resolves.toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+
+  test('should map in completion order when asked to', async () => {
+    const promise = Async.map([30, 10, 20], async ms => {
+      await Async.delay(ms);
+      return ms;
+    }, { preserveOrder: false });
+
+    await clock.runAllPending();
+
+    await expect(promise).resolves.toEqual([10, 20, 30]);
+  });
+
+  test('should reduce the items one after another', async () => {
+    async function* input() {
+      yield 1;
+      yield 2;
+      yield 3;
+    }
+
+    const result = await Async.reduce(input(), async (sum, item) => sum + item, 10);
+
+    expect(result).toBe(16);
+  });
+
+  test('should settle every item whatever the others do', async () => {
+    const promise = Async.allSettled([1, 2, 3], async item => {
+      await Async.delay(item * 10);
+
+      if(item === 2) throw new Error('two');
+      return item;
+    }, { concurrency: 1 });
+
+    await clock.runAllPending();
+    const results = await promise;
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 1 });
+  });
+
+  test('should share the concurrent calls of a key and cache their result', async () => {
+    const fn = jest.fn(async (_token: ICancellationToken, n: number) => n * 2);
+    const memoized = Async.memoize(fn);
+
+    await expect(Promise.all([memoized(1), memoized(1)])).resolves.toEqual([2, 2]);
+    await expect(memoized(1)).resolves.toBe(2);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(memoized.size).toBe(1);
+  });
+
+  test('should not cache a call still in flight when the cache was cleared', async () => {
+    let finish!: (value: number) => void;
+    const memoized = Async.memoize<[number], number>(() => new Promise<number>(resolve => void (finish = resolve)));
+
+    const pending = memoized(1);
+    memoized.clear();
+
+    finish(1);
+    await expect(pending).resolves.toBe(1);
+
+    expect(memoized.size).toBe(0);
+  });
+
+  test('should drop a stale result once its revalidation failed', async () => {
+    let calls = 0;
+
+    const memoized = Async.memoize<[number], number>(async () => {
+      if(++calls > 1) throw new Error('faulty');
+      return calls;
+    }, { ttl: 100, staleWhileRevalidate: true });
+
+    await expect(memoized(1)).resolves.toBe(1);
+    await clock.advanceBy(100);
+
+    await expect(memoized(1)).resolves.toBe(1);
+    await clock.advanceBy(0);
+
+    expect(memoized.size).toBe(0);
+    await expect(memoized(1)).rejects.toThrow('faulty');
+  });
+
+  test('should replace a stale result with the failure of its revalidation when caching rejections', async () => {
+    let calls = 0;
+
+    const memoized = Async.memoize<[number], number>(async () => {
+      if(++calls > 1) throw new Error('faulty');
+      return calls;
+    }, { ttl: 100, staleWhileRevalidate: true, cacheRejections: true });
+
+    await memoized(1);
+    await clock.advanceBy(100);
+
+    await expect(memoized(1)).resolves.toBe(1);
+    await clock.advanceBy(0);
+
+    await expect(memoized(1)).rejects.toThrow('faulty');
+    expect(calls).toBe(2);
+  });
+});
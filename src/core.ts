@@ -1,28 +1,531 @@
 /* eslint-disable @typescript-eslint/no-namespace */
 /* eslint-disable no-inner-declarations */
 
-import { EventLoop } from '@ts-overflow/async/event-loop';
+import { assert } from '@rapid-d-kit/safe';
+
+import { DefaultClock, IClock } from './clock';
+import { Exception } from './@internals/errors';
+import singleFlight, { SingleFlightFunction } from './single-flight';
+import { CancellationError, CancellationToken, CancellationTokenSource, ICancellationToken, isCancellationError, throwIfCancelled } from './cancellation';
 
 
 export namespace Async {
-  export function delay(timeout: number = 750): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, timeout));
+  /**
+   * Resolves after `timeout` milliseconds. If the token is cancelled first, the timer
+   * is cleared and the promise is rejected with an `ERR_TOKEN_CANCELLED` exception.
+   */
+  export function delay(timeout: number = 750, token?: ICancellationToken): Promise<void> {
+    if(!token)
+      return new Promise(resolve => void DefaultClock.setTimeout(resolve, timeout));
+
+    if(token.isCancellationRequested)
+      return Promise.reject(new Exception('Async delay was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+
+    return new Promise((resolve, reject) => {
+      const listener = token.onCancellationRequested(() => {
+        handle.dispose();
+        reject(new Exception('Async delay was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+      });
+
+      const handle = DefaultClock.setTimeout(() => {
+        listener.dispose();
+        resolve();
+      }, timeout);
+    });
+  }
+
+  /**
+   * Races `work` against a timer of `timeout` milliseconds, rejecting with an `ERR_TIMEOUT` exception if it loses.
+   *
+   * When `work` is a function it receives a token that is cancelled once the time is up,
+   * or when the optional parent token is cancelled, so it can stop what it was doing.
+   */
+  export function timeout<T>(work: Promise<T> | ((token: ICancellationToken) => T | Promise<T>), timeout: number, token?: ICancellationToken): Promise<T> {
+    if(token?.isCancellationRequested)
+      return Promise.reject(new Exception('Async execution was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+
+    const source = new CancellationTokenSource(token);
+
+    return new Promise<T>((resolve, reject) => {
+      const settle = () => {
+        handle.dispose();
+        listener?.dispose();
+        source.dispose();
+      };
+
+      const handle = DefaultClock.setTimeout(() => {
+        const error = new Exception(`Async execution did not complete within ${timeout}ms`, 'ERR_TIMEOUT');
+
+        source.cancel(error);
+        settle();
+        reject(error);
+      }, timeout);
+
+      const listener = token?.onCancellationRequested(() => {
+        settle();
+        reject(new Exception('Async execution was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+      });
+
+      const promise = typeof work === 'function' ?
+        new Promise<T>(r => r(work(source.token))) :
+        work;
+
+      promise.then(value => {
+        settle();
+        resolve(value);
+      }, error => {
+        settle();
+        reject(error);
+      });
+    });
   }
 
   export function resolveNextTick(): Promise<void> {
-    return new Promise(resolve => EventLoop.immediate(resolve));
+    return new Promise(resolve => void DefaultClock.setImmediate(resolve));
   }
 
   export function rejectNextTick(reason?: unknown): Promise<never> {
-    return new Promise((_, reject) => EventLoop.immediate(reject, reason));
+    return new Promise((_, reject) => void DefaultClock.setImmediate(() => reject(reason)));
   }
 
   export function wrapRejectionOnNextTick(reject: (reason?: unknown) => unknown, reason?: unknown): void {
-    EventLoop.immediate(reject, reason);
+    DefaultClock.setImmediate(() => reject(reason));
   }
 
   export function wrapResolveOnNextTick(resolve: (value?: any) => unknown, value?: unknown): void {
-    EventLoop.immediate(resolve, value);
+    DefaultClock.setImmediate(() => resolve(value));
+  }
+
+  export type RetryOptions = {
+    /**
+     * The number of attempts made after the first one failed.
+     */
+    retries?: number;
+    minDelay?: number;
+    maxDelay?: number;
+    factor?: number;
+
+    /**
+     * How the exponential delay is randomized, to keep concurrent callers from retrying in lockstep:
+     *
+     * - `full`: anywhere between zero and the computed delay.
+     * - `equal`: anywhere between half of the computed delay and the full delay.
+     * - `none`: exactly the computed delay.
+     */
+    jitter?: 'full' | 'equal' | 'none';
+    shouldRetry?(error: unknown, attempt: number): boolean | Promise<boolean>;
+    onRetry?(error: unknown, attempt: number, delay: number): void;
+    token?: ICancellationToken;
+  };
+
+  /**
+   * Calls `fn` until it succeeds, waiting an exponentially growing delay between attempts.
+   *
+   * An error refused by `shouldRetry` is rethrown as is. Once every attempt failed, the promise is
+   * rejected with an exception whose context holds the error of each attempt. Cancelling the token
+   * stops the retries, including during the delay between two attempts.
+   */
+  export async function retry<T>(
+    fn: (attempt: number, token: ICancellationToken) => T | Promise<T>,
+    {
+      retries = 3,
+      minDelay = 100,
+      maxDelay = 30_000,
+      factor = 2,
+      jitter = 'none',
+      shouldRetry,
+      onRetry,
+      token = CancellationToken.None,
+    }: RetryOptions = {} // eslint-disable-line comma-dangle
+  ): Promise<T> {
+    const errors: unknown[] = [];
+
+    for(let attempt = 1; ; attempt++) {
+      if(token.isCancellationRequested) {
+        throw new Exception('Async retry was cancelled by token', 'ERR_TOKEN_CANCELLED', { context: { attempts: attempt - 1, errors } });
+      }
+
+      try {
+        return await fn(attempt, token);
+      } catch (err: any) {
+        errors.push(err);
+
+        if(shouldRetry && !(await shouldRetry(err, attempt))) throw err;
+
+        if(attempt > retries) {
+          throw new Exception(`Async retry failed after ${attempt} attempts`, 'ERR_UNKNOWN_ERROR', { context: { attempts: attempt, errors } });
+        }
+      }
+
+      const wait = _backoff(attempt, minDelay, maxDelay, factor, jitter);
+      onRetry?.(errors[errors.length - 1], attempt, wait);
+
+      try {
+        await delay(wait, token);
+      } catch {
+        throw new Exception('Async retry was cancelled by token', 'ERR_TOKEN_CANCELLED', { context: { attempts: attempt, errors } });
+      }
+    }
+  }
+
+  function _backoff(attempt: number, minDelay: number, maxDelay: number, factor: number, jitter: 'full' | 'equal' | 'none'): number {
+    const base = Math.min(maxDelay, minDelay * Math.pow(factor, attempt - 1));
+
+    switch(jitter) {
+      case 'full':
+        return Math.random() * base;
+      case 'equal':
+        return base / 2 + Math.random() * base / 2;
+      default:
+        return base;
+    }
+  }
+
+  export type MemoizeOptions<A extends unknown[]> = {
+    /**
+     * Maps the arguments of a call to its cache key. Defaults to the first argument.
+     */
+    key?(...args: A): unknown;
+
+    /**
+     * How long a result stays fresh, in milliseconds. Defaults to forever.
+     */
+    ttl?: number;
+
+    /**
+     * The maximum number of cached results, the least recently used ones being evicted first.
+     */
+    maxEntries?: number;
+
+    /**
+     * Whether an expired result is still returned while a fresh one is computed in the background.
+     * The expired result is dropped if that computation fails, unless the failure is cached in its place.
+     */
+    staleWhileRevalidate?: boolean;
+
+    /**
+     * Whether failures are cached like results. Cancellations never are.
+     */
+    cacheRejections?: boolean;
+    clock?: IClock;
+  };
+
+  export interface MemoizedFunction<A extends unknown[], R> extends SingleFlightFunction<A, R> {
+    /**
+     * The number of cached results, fresh or not.
+     */
+    readonly size: number;
+    delete(...args: A): boolean;
+    clear(): void;
+  }
+
+  /**
+   * Caches the results of `fn` by key. Concurrent calls missing the cache share a single call of `fn`,
+   * which is only cancelled once every caller waiting for it cancelled its own token.
+   */
+  export function memoize<A extends unknown[], R>(
+    fn: (token: ICancellationToken, ...args: A) => R | Promise<R>,
+    {
+      key: keyFn = (...args: A) => args[0],
+      ttl = Infinity,
+      maxEntries = Infinity,
+      staleWhileRevalidate = false,
+      cacheRejections = false,
+      clock = DefaultClock,
+    }: MemoizeOptions<A> = {} // eslint-disable-line comma-dangle
+  ): MemoizedFunction<A, R> {
+    assert(typeof ttl === 'number' && ttl >= 0);
+    assert(typeof maxEntries === 'number' && maxEntries > 0);
+
+    const cache: Map<unknown, { expiresAt: number; outcome: PromiseSettledResult<R> }> = new Map();
+
+    // Bumped by `delete()` and `clear()`, so the calls already in flight do not write their results back
+    let generation = 0;
+
+    const store = (key: unknown, outcome: PromiseSettledResult<R>, startedAt: number) => {
+      if(startedAt !== generation) return;
+
+      cache.delete(key);
+      cache.set(key, { expiresAt: clock.now() + ttl, outcome });
+
+      for(const oldest of cache.keys()) {
+        if(cache.size <= maxEntries) break;
+        cache.delete(oldest);
+      }
+    };
+
+    const flight = singleFlight(keyFn, async (token, ...args: A) => {
+      const key = keyFn(...args);
+      const startedAt = generation;
+
+      try {
+        const value = await fn(token, ...args);
+        store(key, { status: 'fulfilled', value }, startedAt);
+
+        return value;
+      } catch (err: any) {
+        if(cacheRejections && !isCancellationError(err)) {
+          store(key, { status: 'rejected', reason: err }, startedAt);
+        }
+
+        throw err;
+      }
+    });
+
+    const withToken = (token: ICancellationToken | AbortSignal | undefined, ...args: A): Promise<R> => {
+      const key = keyFn(...args);
+      const entry = cache.get(key);
+
+      if(entry) {
+        const fresh = entry.expiresAt > clock.now();
+
+        if(fresh || staleWhileRevalidate) {
+          // Touched entries move to the end, the least recently used ones staying first in line for eviction
+          cache.delete(key);
+          cache.set(key, entry);
+
+          if(!fresh) {
+            flight(...args).catch(() => {
+              if(cache.get(key) === entry) {
+                cache.delete(key);
+              }
+            });
+          }
+
+          return entry.outcome.status === 'fulfilled' ?
+            Promise.resolve(entry.outcome.value) :
+            Promise.reject(entry.outcome.reason);
+        }
+
+        cache.delete(key);
+      }
+
+      return flight.withToken(token, ...args);
+    };
+
+    const call = ((...args: A) => withToken(undefined, ...args)) as MemoizedFunction<A, R>;
+
+    return Object.defineProperties(call, {
+      withToken: { value: withToken },
+      inFlight: { get: () => flight.inFlight },
+      size: { get: () => cache.size },
+      delete: {
+        value: (...args: A) => {
+          generation++;
+          return cache.delete(keyFn(...args));
+        },
+      },
+      clear: {
+        value: () => {
+          generation++;
+          cache.clear();
+        },
+      },
+    });
+  }
+
+  export type CollectionOptions = {
+    /**
+     * The maximum number of items processed at once. The input is only pulled as fast as items get processed.
+     */
+    concurrency?: number;
+    token?: ICancellationToken;
+
+    /**
+     * Whether the first error cancels the items still being processed and stops pulling the input.
+     * Otherwise every item is processed and the errors are reported together at the end.
+     */
+    stopOnError?: boolean;
+  };
+
+  /**
+   * Maps every item of a (possibly async) iterable through `fn`, with at most `concurrency` calls in flight.
+   *
+   * Results are in input order unless `preserveOrder` is `false`, in which case they come in completion order.
+   */
+  export async function map<T, R>(
+    input: Iterable<T> | AsyncIterable<T>,
+    fn: (item: T, index: number, token: ICancellationToken) => R | Promise<R>,
+    { preserveOrder = true, ...options }: CollectionOptions & { preserveOrder?: boolean } = {} // eslint-disable-line comma-dangle
+  ): Promise<R[]> {
+    const results: R[] = [];
+    const errors: unknown[] = [];
+
+    await _pool(input, fn, options, (index, outcome) => {
+      if(outcome.status === 'rejected') {
+        errors.push(outcome.reason);
+      } else if(preserveOrder) {
+        results[index] = outcome.value;
+      } else {
+        results.push(outcome.value);
+      }
+    });
+
+    _throwCollected(errors);
+    return results;
+  }
+
+  /**
+   * Calls `fn` for every item of a (possibly async) iterable, with at most `concurrency` calls in flight.
+   */
+  export async function forEach<T>(
+    input: Iterable<T> | AsyncIterable<T>,
+    fn: (item: T, index: number, token: ICancellationToken) => unknown,
+    options?: CollectionOptions // eslint-disable-line comma-dangle
+  ): Promise<void> {
+    const errors: unknown[] = [];
+
+    await _pool(input, fn, options ?? {}, (_, outcome) => {
+      if(outcome.status === 'rejected') {
+        errors.push(outcome.reason);
+      }
+    });
+
+    _throwCollected(errors);
+  }
+
+  /**
+   * Keeps the items of a (possibly async) iterable for which `predicate` holds, in input order,
+   * with at most `concurrency` predicates in flight.
+   */
+  export async function filter<T>(
+    input: Iterable<T> | AsyncIterable<T>,
+    predicate: (item: T, index: number, token: ICancellationToken) => boolean | Promise<boolean>,
+    options?: CollectionOptions // eslint-disable-line comma-dangle
+  ): Promise<T[]> {
+    const kept: ({ value: T } | undefined)[] = [];
+    const errors: unknown[] = [];
+
+    await _pool(input, async (item, index, token) => {
+      return { item, keep: await predicate(item, index, token) };
+    }, options ?? {}, (index, outcome) => {
+      if(outcome.status === 'rejected') {
+        errors.push(outcome.reason);
+      } else if(outcome.value.keep) {
+        kept[index] = { value: outcome.value.item };
+      }
+    });
+
+    _throwCollected(errors);
+    return kept.filter(entry => !!entry).map(entry => entry!.value);
+  }
+
+  /**
+   * Folds the items of a (possibly async) iterable one after another through an async reducer.
+   */
+  export async function reduce<T, R>(
+    input: Iterable<T> | AsyncIterable<T>,
+    reducer: (accumulator: R, item: T, index: number, token: ICancellationToken) => R | Promise<R>,
+    initial: R,
+    { token = CancellationToken.None }: { token?: ICancellationToken } = {} // eslint-disable-line comma-dangle
+  ): Promise<R> {
+    let accumulator = initial;
+    let index = 0;
+
+    for await (const item of input) {
+      throwIfCancelled(token);
+      accumulator = await reducer(accumulator, item, index++, token);
+    }
+
+    return accumulator;
+  }
+
+  /**
+   * Calls `fn` for every item of a (possibly async) iterable, with at most `concurrency` calls in flight,
+   * and reports the outcome of each call in input order. A failing call never stops the others.
+   */
+  export async function allSettled<T, R>(
+    input: Iterable<T> | AsyncIterable<T>,
+    fn: (item: T, index: number, token: ICancellationToken) => R | Promise<R>,
+    options?: Omit<CollectionOptions, 'stopOnError'> // eslint-disable-line comma-dangle
+  ): Promise<PromiseSettledResult<R>[]> {
+    const results: PromiseSettledResult<R>[] = [];
+
+    await _pool(input, fn, { ...options, stopOnError: false }, (index, outcome) => {
+      results[index] = outcome;
+    });
+
+    return results;
+  }
+
+  async function _pool<T, R>(
+    input: Iterable<T> | AsyncIterable<T>,
+    fn: (item: T, index: number, token: ICancellationToken) => R | Promise<R>,
+    { concurrency = Infinity, token, stopOnError = true }: CollectionOptions,
+    onSettled: (index: number, outcome: PromiseSettledResult<R>) => void // eslint-disable-line comma-dangle
+  ): Promise<void> {
+    assert(typeof concurrency === 'number' && concurrency >= 1);
+    throwIfCancelled(token);
+
+    const source = new CancellationTokenSource(token);
+    const running: Set<Promise<void>> = new Set();
+
+    const iterator: Iterator<T> | AsyncIterator<T> = Symbol.asyncIterator in input ?
+      input[Symbol.asyncIterator]() :
+      input[Symbol.iterator]();
+
+    let index = 0;
+    let exhausted = false;
+    let failure: { error: unknown } | null = null;
+
+    try {
+      while(!failure && !source.token.isCancellationRequested) {
+        if(running.size >= concurrency) {
+          await Promise.race(running);
+          continue;
+        }
+
+        const result = await iterator.next();
+
+        if(result.done) {
+          exhausted = true;
+          break;
+        }
+
+        const current = index++;
+
+        const task = (async () => {
+          try {
+            onSettled(current, { status: 'fulfilled', value: await fn(result.value, current, source.token) });
+          } catch (err: any) {
+            onSettled(current, { status: 'rejected', reason: err });
+
+            if(stopOnError && !failure) {
+              failure = { error: err };
+              source.cancel(err);
+            }
+          }
+        })();
+
+        running.add(task);
+        task.then(() => running.delete(task));
+      }
+    } catch (err: any) {
+      // The input itself failed, so it must not be pulled again
+      exhausted = true;
+      failure ??= { error: err };
+
+      source.cancel(err);
+    } finally {
+      await Promise.allSettled(running);
+
+      if(!exhausted) {
+        await Promise.resolve(iterator.return?.()).catch(() => void 0);
+      }
+
+      source.dispose();
+    }
+
+    if(failure) throw failure.error;
+
+    if(token?.isCancellationRequested) {
+      throw new CancellationError(token.reason);
+    }
+  }
+
+  function _throwCollected(errors: unknown[]): void {
+    if(errors.length === 0) return;
+    throw new Exception(`${errors.length} items failed to be processed`, 'ERR_UNKNOWN_ERROR', { context: { errors } });
   }
 
   export interface IAbstractConcurrencyHandler {
@@ -0,0 +1,97 @@
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import { CancellationError, ICancellationToken } from './cancellation';
+
+
+type Outcome<T> =
+  | { status: 'resolved'; value: T }
+  | { status: 'rejected'; error: unknown };
+
+
+/**
+ * A promise settled from the outside, which can tell how and whether it was settled.
+ */
+export class DeferredPromise<T> {
+  #outcome: Outcome<T> | null = null;
+  #resolve!: (value: T) => void;
+  #reject!: (reason?: unknown) => void;
+  #listener: IDisposable | null = null;
+
+  public readonly promise: Promise<T>;
+
+  /**
+   * Constructs a DeferredPromise, optionally cancelled along with the given token.
+   *
+   * @param token - Optional cancellation token.
+   */
+  public constructor(token?: ICancellationToken) {
+    this.promise = new Promise<T>((resolve, reject) => {
+      this.#resolve = resolve;
+      this.#reject = reject;
+    });
+
+    if(!token) return;
+
+    if(token.isCancellationRequested) {
+      this.cancel(token.reason);
+    } else {
+      this.#listener = token.onCancellationRequested(reason => this.cancel(reason));
+    }
+  }
+
+  public get isSettled(): boolean {
+    return !!this.#outcome;
+  }
+
+  public get isResolved(): boolean {
+    return this.#outcome?.status === 'resolved';
+  }
+
+  public get isRejected(): boolean {
+    return this.#outcome?.status === 'rejected';
+  }
+
+  /**
+   * The value the promise was resolved with, if it was resolved.
+   */
+  public get value(): T | undefined {
+    return this.#outcome?.status === 'resolved' ? this.#outcome.value : undefined;
+  }
+
+  /**
+   * The reason the promise was rejected with, if it was rejected.
+   */
+  public get rejection(): unknown {
+    return this.#outcome?.status === 'rejected' ? this.#outcome.error : undefined;
+  }
+
+  public complete(value: T): void {
+    if(this.#outcome) return;
+
+    this.#outcome = { status: 'resolved', value };
+    this.#settle();
+    this.#resolve(value);
+  }
+
+  public error(err: unknown): void {
+    if(this.#outcome) return;
+
+    this.#outcome = { status: 'rejected', error: err };
+    this.#settle();
+    this.#reject(err);
+  }
+
+  /**
+   * Rejects the promise with a `CancellationError` carrying the given reason.
+   */
+  public cancel(reason?: any): void {
+    this.error(new CancellationError(reason));
+  }
+
+  #settle(): void {
+    this.#listener?.dispose();
+    this.#listener = null;
+  }
+}
+
+export default DeferredPromise;
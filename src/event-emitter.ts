@@ -1,8 +1,10 @@
-import { IDisposable } from '@rapid-d-kit/disposable';
-import { assertDefinedString } from '@rapid-d-kit/safe';
+import { IDisposable, toDisposable } from '@rapid-d-kit/disposable';
+import { assert, assertDefinedString } from '@rapid-d-kit/safe';
 import type { Dict, LooseAutocomplete, FunctionArguments } from '@rapid-d-kit/types';
 
 import { Exception } from './@internals/errors';
+import type { ICancellationToken } from './cancellation';
+import { ListenerErrorHandler, onUnexpectedListenerError } from './events';
 
 
 export type ListenerCallback<T> = (...args: T extends unknown[] ? T : [T]) => unknown;
@@ -11,12 +13,17 @@ export class WeakEventEmitter<T = Dict<any>> implements IDisposable {
   #disposed: boolean = false;
   readonly #listeners: Map<string, Set<ListenerCallback<T>>> = new Map();
   readonly #metadata: Map<string, Map<ListenerCallback<T>, { once: boolean }>> = new Map();
+  readonly #onListenerError?: ListenerErrorHandler;
+
+  public constructor(_options?: { onListenerError?: ListenerErrorHandler }) {
+    this.#onListenerError = _options?.onListenerError;
+  }
 
   public addListener<K extends keyof T>(
     event: LooseAutocomplete<K>,
     listener: ListenerCallback<T[K]>,
     options?: { once?: boolean } // eslint-disable-line comma-dangle
-  ): void {
+  ): IDisposable {
     this.#ensureNotDisposed();
     assertDefinedString(event);
     
@@ -32,6 +39,11 @@ export class WeakEventEmitter<T = Dict<any>> implements IDisposable {
     }
 
     this.#metadata.get(event)!.set(listener as () => void, { once: options?.once ?? false });
+
+    return toDisposable(() => {
+      if(this.#disposed) return;
+      this.removeListener(event, listener);
+    });
   }
 
   public removeListener<K extends keyof T>(event: LooseAutocomplete<K>, listener: ListenerCallback<T[K]>): boolean {
@@ -120,7 +132,9 @@ export class WeakEventEmitter<T = Dict<any>> implements IDisposable {
         }
 
         listener(...args as unknown as any);
-      } catch { continue; }
+      } catch (err: any) {
+        this.#handleError(err);
+      }
     }
 
     return true;
@@ -145,7 +159,9 @@ export class WeakEventEmitter<T = Dict<any>> implements IDisposable {
             }
 
             listener(...(args || []) as any);
-          } catch { continue; }
+          } catch (err: any) {
+            this.#handleError(err);
+          }
         }
       }
 
@@ -168,8 +184,10 @@ export class WeakEventEmitter<T = Dict<any>> implements IDisposable {
           this.#listeners.get(event)!.delete(listener);
         }
 
-        listener(...args as unknown as any);
-      } catch { continue; }
+        listener(...(args || []) as any);
+      } catch (err: any) {
+        this.#handleError(err);
+      }
     }
 
     return true;
@@ -184,9 +202,170 @@ export class WeakEventEmitter<T = Dict<any>> implements IDisposable {
     this.#disposed = true;
   }
 
+  #handleError(error: unknown): void {
+    (this.#onListenerError ?? onUnexpectedListenerError)(error);
+  }
+
   #ensureNotDisposed(): void {
     if(this.#disposed) {
       throw new Exception('WeakEventListener is already disposed', 'ERR_RESOURCE_DISPOSED');
     }
   }
 }
+
+
+export type EventIteratorOptions = {
+  token?: ICancellationToken;
+
+  /**
+   * The maximum number of events kept between two pulls of the iterator.
+   */
+  highWaterMark?: number;
+
+  /**
+   * What happens to an event that arrives while the buffer is full.
+   */
+  overflow?: 'drop-oldest' | 'drop-newest' | 'error';
+};
+
+/**
+ * Returns an async iterator over the arguments of every `event` emitted by `emitter`.
+ *
+ * Events emitted between two pulls are buffered. The listener is removed as soon as the
+ * consuming loop ends, or once the token is cancelled, in which case the iterator rejects.
+ */
+export function on<T, K extends keyof T>(
+  emitter: WeakEventEmitter<T>,
+  event: LooseAutocomplete<K>,
+  { token, highWaterMark = Infinity, overflow = 'error' }: EventIteratorOptions = {} // eslint-disable-line comma-dangle
+): AsyncIterableIterator<FunctionArguments<ListenerCallback<T[K]>>> {
+  type Args = FunctionArguments<ListenerCallback<T[K]>>;
+
+  assert(highWaterMark > 0);
+
+  const buffer: Args[] = [];
+  const pulls: { resolve(result: IteratorResult<Args>): void; reject(reason?: unknown): void }[] = [];
+
+  let finished = false;
+  let error: unknown = null;
+
+  const close = () => {
+    finished = true;
+
+    subscription.dispose();
+    cancellation?.dispose();
+  };
+
+  const fail = (reason: unknown) => {
+    close();
+
+    if(pulls.length > 0) {
+      pulls.shift()!.reject(reason);
+
+      while(pulls.length > 0) {
+        pulls.shift()!.resolve({ value: undefined, done: true });
+      }
+    } else {
+      error = reason;
+    }
+  };
+
+  const subscription = emitter.addListener(event, ((...args: Args) => {
+    if(finished) return;
+
+    if(pulls.length > 0) {
+      pulls.shift()!.resolve({ value: args, done: false });
+      return;
+    }
+
+    if(buffer.length < highWaterMark) {
+      buffer.push(args);
+      return;
+    }
+
+    switch(overflow) {
+      case 'drop-oldest':
+        buffer.shift();
+        buffer.push(args);
+        break;
+      case 'drop-newest':
+        break;
+      default:
+        fail(new Exception(`More than ${highWaterMark} events were buffered without being consumed`, 'ERR_CONSTRAINT_VIOLATION'));
+    }
+  }) as ListenerCallback<T[K]>);
+
+  const cancellation = token?.onCancellationRequested(() => {
+    if(finished) return;
+    fail(new Exception('Iteration over the emitted events was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+  });
+
+  if(token?.isCancellationRequested) {
+    fail(new Exception('Iteration over the emitted events was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+  }
+
+  return {
+    next(): Promise<IteratorResult<Args>> {
+      if(buffer.length > 0)
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+
+      if(error) {
+        const reason = error;
+        error = null;
+
+        return Promise.reject(reason);
+      }
+
+      if(finished)
+        return Promise.resolve({ value: undefined, done: true });
+
+      return new Promise((resolve, reject) => {
+        pulls.push({ resolve, reject });
+      });
+    },
+
+    return(): Promise<IteratorResult<Args>> {
+      if(!finished) {
+        close();
+      }
+
+      buffer.length = 0;
+      error = null;
+
+      while(pulls.length > 0) {
+        pulls.shift()!.resolve({ value: undefined, done: true });
+      }
+
+      return Promise.resolve({ value: undefined, done: true });
+    },
+
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * Creates a promise resolved with the arguments of the next `event` emitted by `emitter`.
+ * The promise is rejected if the token is cancelled before that.
+ */
+export function once<T, K extends keyof T>(
+  emitter: WeakEventEmitter<T>,
+  event: LooseAutocomplete<K>,
+  token?: ICancellationToken // eslint-disable-line comma-dangle
+): Promise<FunctionArguments<ListenerCallback<T[K]>>> {
+  if(token?.isCancellationRequested)
+    return Promise.reject(new Exception('Waiting for the emitted event was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+
+  return new Promise((resolve, reject) => {
+    const subscription = emitter.addListener(event, ((...args: FunctionArguments<ListenerCallback<T[K]>>) => {
+      cancellation?.dispose();
+      resolve(args);
+    }) as ListenerCallback<T[K]>, { once: true });
+
+    const cancellation = token?.onCancellationRequested(() => {
+      subscription.dispose();
+      reject(new Exception('Waiting for the emitted event was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+    });
+  });
+}
@@ -0,0 +1,293 @@
+import { type IDisposable, toDisposable } from '@rapid-d-kit/disposable';
+
+import { VirtualClock } from './testing';
+import { CancellationTokenSource, type ICancellationToken } from './cancellation';
+import { Emitter, Event, rethrowListenerError, setListenerErrorHandler } from './events';
+
+
+describe('Emitter', () => {
+  afterEach(() => {
+    setListenerErrorHandler(rethrowListenerError);
+  });
+
+  test('should report a throwing listener and still call the others', () => {
+    const errors: unknown[] = [];
+    const received: number[] = [];
+
+    const emitter = new Emitter<number>({ onListenerError: error => void errors.push(error) });
+
+    emitter.event(() => { throw new Error('faulty'); });
+    emitter.event(value => void received.push(value));
+
+    emitter.fire(1);
+
+    expect(received).toEqual([1]);
+    expect(errors).toHaveLength(1);
+  });
+
+  test('should rethrow listener errors asynchronously by default', async () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => void 0);
+    const clock = new VirtualClock();
+    const installation = clock.install();
+
+    try {
+      const emitter = new Emitter<number>();
+      emitter.event(() => { throw new Error('faulty'); });
+
+      expect(() => emitter.fire(1)).not.toThrow();
+      expect(clock.pending).toBe(1);
+
+      await expect(clock.advanceBy(0)).rejects.toThrow('faulty');
+      expect(spy).not.toHaveBeenCalled();
+    } finally {
+      installation.dispose();
+      spy.mockRestore();
+    }
+  });
+
+  test('should report possible leaks to the listener error handler', () => {
+    const errors: unknown[] = [];
+    setListenerErrorHandler(error => void errors.push(error));
+
+    const emitter = new Emitter<number>({ leakWarningThreshold: 2 });
+
+    for(let i = 0; i < 4; i++) {
+      emitter.event(() => void 0);
+    }
+
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('Event', () => {
+  let clock: VirtualClock;
+  let installation: IDisposable;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    installation = clock.install();
+  });
+
+  afterEach(() => {
+    installation.dispose();
+  });
+
+  function record<T>(event: Event<T>): { values: T[]; subscription: IDisposable } {
+    const values: T[] = [];
+    return { values, subscription: event(value => void values.push(value)) };
+  }
+
+  function trackRegistrations(token: ICancellationToken): jest.Mock[] {
+    const disposals: jest.Mock[] = [];
+    const onCancellationRequested = token.onCancellationRequested;
+
+    jest.spyOn(token, 'onCancellationRequested').mockImplementation((...args) => {
+      const registration = onCancellationRequested.apply(token, args);
+      const dispose = jest.fn(() => registration.dispose());
+
+      disposals.push(dispose);
+      return { dispose };
+    });
+
+    return disposals;
+  }
+
+  test('should map and filter the values', () => {
+    const emitter = new Emitter<number>();
+
+    const { values } = record(Event.map(Event.filter(emitter.event, n => n % 2 === 0), n => n * 10));
+    [1, 2, 3, 4].forEach(n => emitter.fire(n));
+
+    expect(values).toEqual([20, 40]);
+  });
+
+  test('should stop forwarding once the token is cancelled', () => {
+    const emitter = new Emitter<number>();
+    const source = new CancellationTokenSource();
+
+    const { values } = record(Event.map(emitter.event, n => n, source.token));
+
+    emitter.fire(1);
+    source.cancel();
+    emitter.fire(2);
+
+    expect(values).toEqual([1]);
+  });
+
+  test('should only fire once', () => {
+    const emitter = new Emitter<number>();
+    const { values } = record(Event.once(emitter.event));
+
+    emitter.fire(1);
+    emitter.fire(2);
+
+    expect(values).toEqual([1]);
+  });
+
+  test('should fire whenever any of the events fires', () => {
+    const a = new Emitter<string>();
+    const b = new Emitter<string>();
+
+    const { values, subscription } = record(Event.any(a.event, b.event));
+
+    a.fire('a');
+    b.fire('b');
+    subscription.dispose();
+    a.fire('c');
+
+    expect(values).toEqual(['a', 'b']);
+  });
+
+  test('should debounce the values fired in a burst', async () => {
+    const emitter = new Emitter<number>();
+    const { values } = record(Event.debounce<number, number[]>(emitter.event, (last, current) => [...(last ?? []), current], { delay: 100 }));
+
+    emitter.fire(1);
+    await clock.advanceBy(50);
+    emitter.fire(2);
+    await clock.advanceBy(99);
+
+    expect(values).toEqual([]);
+
+    await clock.advanceBy(1);
+    expect(values).toEqual([[1, 2]]);
+
+    emitter.fire(3);
+    await clock.advanceBy(100);
+
+    expect(values).toEqual([[1, 2], [3]]);
+  });
+
+  test('should fire the leading value of a burst right away', async () => {
+    const emitter = new Emitter<number>();
+    const { values } = record(Event.debounce<number, number>(emitter.event, (_, current) => current, { delay: 100, leading: true }));
+
+    emitter.fire(1);
+    expect(values).toEqual([1]);
+
+    await clock.advanceBy(100);
+    expect(values).toEqual([1]);
+
+    emitter.fire(2);
+    emitter.fire(3);
+    await clock.advanceBy(100);
+
+    expect(values).toEqual([1, 2, 3]);
+  });
+
+  test('should throttle the values to one per interval', async () => {
+    const emitter = new Emitter<number>();
+    const { values } = record(Event.throttle(emitter.event, { interval: 100 }));
+
+    emitter.fire(1);
+    emitter.fire(2);
+    emitter.fire(3);
+
+    expect(values).toEqual([1]);
+
+    await clock.advanceBy(100);
+    expect(values).toEqual([1, 3]);
+
+    await clock.advanceBy(100);
+    emitter.fire(4);
+
+    expect(values).toEqual([1, 3, 4]);
+  });
+
+  test('should drop the trailing value when asked to', async () => {
+    const emitter = new Emitter<number>();
+    const { values, subscription } = record(Event.throttle(emitter.event, { interval: 100, trailing: false }));
+
+    emitter.fire(1);
+    emitter.fire(2);
+    await clock.advanceBy(100);
+
+    expect(values).toEqual([1]);
+
+    subscription.dispose();
+    expect(clock.pending).toBe(0);
+  });
+
+  test('should buffer the values until the first listener subscribes', () => {
+    const emitter = new Emitter<number>();
+    const buffered = Event.buffer(emitter.event);
+
+    emitter.fire(1);
+    emitter.fire(2);
+
+    const { values } = record(buffered);
+    emitter.fire(3);
+
+    expect(values).toEqual([1, 2, 3]);
+  });
+
+  test('should flush the buffer on a timer when asked to', async () => {
+    const emitter = new Emitter<number>();
+    const buffered = Event.buffer(emitter.event, { flushAfterTimeout: true });
+
+    emitter.fire(1);
+
+    const { values } = record(buffered);
+    expect(values).toEqual([]);
+
+    await clock.advanceBy(0);
+    expect(values).toEqual([1]);
+  });
+
+  test('should drop the values equal to the previous one', () => {
+    const emitter = new Emitter<number>();
+    const { values } = record(Event.latch(emitter.event));
+
+    [1, 1, 2, 2, 1].forEach(n => emitter.fire(n));
+
+    expect(values).toEqual([1, 2, 1]);
+  });
+
+  test('should resolve with the next value', async () => {
+    const emitter = new Emitter<number>();
+    const promise = Event.toPromise(emitter.event);
+
+    emitter.fire(1);
+    emitter.fire(2);
+
+    await expect(promise).resolves.toBe(1);
+  });
+
+  test('should reject when the token is cancelled first', async () => {
+    const emitter = new Emitter<number>();
+    const source = new CancellationTokenSource();
+
+    const promise = Event.toPromise(emitter.event, source.token);
+    source.cancel();
+
+    await expect(promise).rejects.toThrow();
+    await expect(Event.toPromise(emitter.event, source.token)).rejects.toThrow();
+  });
+
+  test('should drop the token listener when the event fires on subscription', async () => {
+    const source = new CancellationTokenSource();
+    const disposals = trackRegistrations(source.token);
+
+    const promise = Event.toPromise<number>(listener => {
+      listener(1);
+      return toDisposable(() => void 0);
+    }, source.token);
+
+    await expect(promise).resolves.toBe(1);
+
+    expect(disposals).toHaveLength(1);
+    expect(disposals[0]).toHaveBeenCalled();
+  });
+
+  test('should drop the token listener of a buffer once its last listener leaves', () => {
+    const emitter = new Emitter<number>();
+    const source = new CancellationTokenSource();
+    const disposals = trackRegistrations(source.token);
+
+    const { subscription } = record(Event.buffer(emitter.event, { token: source.token }));
+    subscription.dispose();
+
+    expect(disposals.length).toBeGreaterThan(0);
+    disposals.forEach(dispose => expect(dispose).toHaveBeenCalled());
+  });
+});
@@ -0,0 +1,564 @@
+/* eslint-disable @typescript-eslint/no-namespace */
+/* eslint-disable no-inner-declarations */
+
+import { IDisposable, DisposableStore, toDisposable } from '@rapid-d-kit/disposable';
+
+import { DefaultClock } from './clock';
+import { Exception } from './@internals/errors';
+import type { ICancellationToken } from './cancellation';
+
+
+/**
+ * A function that subscribes a listener to some source of events and
+ * returns a disposable that removes the subscription.
+ *
+ * @param listener - The function called with every event.
+ * @param thisArgs - Optional `this` context for the listener function.
+ * @param disposables - Optional collection that takes ownership of the returned subscription.
+ * @returns {IDisposable} A disposable object to remove the listener.
+ */
+export interface Event<T> {
+  (listener: (e: T) => unknown, thisArgs?: any, disposables?: IDisposable[] | DisposableStore): IDisposable;
+}
+
+
+export namespace Event {
+  export const None: Event<any> = () => toDisposable(() => void 0);
+
+  /**
+   * Given an event, returns another event which fires with the values mapped by `fn`.
+   */
+  export function map<I, O>(event: Event<I>, fn: (i: I) => O, token?: ICancellationToken): Event<O> {
+    return (listener, thisArgs, disposables) => _register(
+      _bindToken(event(i => listener.call(thisArgs, fn(i))), token),
+      disposables // eslint-disable-line comma-dangle
+    );
+  }
+
+  /**
+   * Given an event, returns another event which only fires when `predicate` holds.
+   */
+  export function filter<T, U extends T>(event: Event<T>, predicate: (e: T) => e is U, token?: ICancellationToken): Event<U>;
+  export function filter<T>(event: Event<T>, predicate: (e: T) => boolean, token?: ICancellationToken): Event<T>;
+  export function filter<T>(event: Event<T>, predicate: (e: T) => boolean, token?: ICancellationToken): Event<T> {
+    return (listener, thisArgs, disposables) => _register(
+      _bindToken(event(e => predicate(e) && listener.call(thisArgs, e)), token),
+      disposables // eslint-disable-line comma-dangle
+    );
+  }
+
+  /**
+   * Given an event, returns another event which only fires once.
+   */
+  export function once<T>(event: Event<T>, token?: ICancellationToken): Event<T> {
+    return (listener, thisArgs, disposables) => {
+      let didFire = false;
+      let subscription: IDisposable | null = null;
+
+      subscription = event(e => {
+        if(didFire) return;
+        didFire = true;
+
+        subscription?.dispose();
+        listener.call(thisArgs, e);
+      });
+
+      // The source may fire synchronously while subscribing
+      if(didFire) {
+        subscription.dispose();
+      }
+
+      return _register(_bindToken(subscription, token), disposables);
+    };
+  }
+
+  /**
+   * Given a collection of events, returns a single event which fires whenever any of them fires.
+   */
+  export function any<T>(...events: Event<T>[]): Event<T> {
+    return (listener, thisArgs, disposables) => {
+      const store = new DisposableStore();
+
+      for(const event of events) {
+        store.add(event(e => listener.call(thisArgs, e)));
+      }
+
+      return _register(store, disposables);
+    };
+  }
+
+  /**
+   * Given an event, returns another event which fires once the source stayed quiet for `delay` milliseconds,
+   * with every value fired in the meantime folded together by `merge`.
+   */
+  export function debounce<I, O = I>(
+    event: Event<I>,
+    merge: (last: O | undefined, current: I) => O,
+    { delay = 100, leading = false, token }: { delay?: number; leading?: boolean; token?: ICancellationToken } = {} // eslint-disable-line comma-dangle
+  ): Event<O> {
+    return (listener, thisArgs, disposables) => {
+      let output: O | undefined = undefined;
+      let handle: IDisposable | null = null;
+      let debounced = 0;
+
+      const subscription = event(current => {
+        debounced++;
+        output = merge(output, current);
+
+        if(leading && !handle) {
+          listener.call(thisArgs, output);
+          output = undefined;
+        }
+
+        handle?.dispose();
+
+        handle = DefaultClock.setTimeout(() => {
+          const value = output;
+
+          output = undefined;
+          handle = null;
+
+          if(!leading || debounced > 1) {
+            listener.call(thisArgs, value as O);
+          }
+
+          debounced = 0;
+        }, delay);
+      });
+
+      const result = toDisposable(() => {
+        if(handle) {
+          handle.dispose();
+          handle = null;
+        }
+
+        subscription.dispose();
+      });
+
+      return _register(_bindToken(result, token), disposables);
+    };
+  }
+
+  /**
+   * Given an event, returns another event which fires at most once every `interval` milliseconds.
+   * The first value passes through right away and the latest value seen during the interval is fired at its end.
+   */
+  export function throttle<T>(
+    event: Event<T>,
+    { interval = 100, leading = true, trailing = true, token }: { interval?: number; leading?: boolean; trailing?: boolean; token?: ICancellationToken } = {} // eslint-disable-line comma-dangle
+  ): Event<T> {
+    return (listener, thisArgs, disposables) => {
+      let pending: { value: T } | null = null;
+      let handle: IDisposable | null = null;
+
+      const schedule = () => {
+        handle = DefaultClock.setTimeout(() => {
+          handle = null;
+          if(!pending) return;
+
+          const { value } = pending;
+          pending = null;
+
+          listener.call(thisArgs, value);
+          schedule();
+        }, interval);
+      };
+
+      const subscription = event(value => {
+        if(handle) {
+          if(trailing) {
+            pending = { value };
+          }
+
+          return;
+        }
+
+        if(leading) {
+          listener.call(thisArgs, value);
+        } else if(trailing) {
+          pending = { value };
+        }
+
+        schedule();
+      });
+
+      const result = toDisposable(() => {
+        if(handle) {
+          handle.dispose();
+          handle = null;
+        }
+
+        pending = null;
+        subscription.dispose();
+      });
+
+      return _register(_bindToken(result, token), disposables);
+    };
+  }
+
+  /**
+   * Subscribes to the event right away and buffers its values until the first listener of the
+   * returned event subscribes, at which point they are flushed to it in order.
+   */
+  export function buffer<T>(event: Event<T>, { flushAfterTimeout = false, token }: { flushAfterTimeout?: boolean; token?: ICancellationToken } = {}): Event<T> {
+    let buffered: T[] | null = [];
+    let subscription: IDisposable | null = null;
+    let cancellation: IDisposable | null = null;
+    let flushHandle: IDisposable | null = null;
+
+    const cancel = () => {
+      buffered = null;
+      subscription?.dispose();
+      subscription = null;
+      cancellation?.dispose();
+      cancellation = null;
+      emitter.dispose();
+    };
+
+    const flush = () => {
+      flushHandle = null;
+
+      const values = buffered;
+      buffered = null;
+
+      values?.forEach(value => emitter.fire(value));
+    };
+
+    const emitter: Emitter<T> = new Emitter<T>({
+      onWillAddFirstListener() {
+        if(!subscription && !token?.isCancellationRequested) {
+          subscription = event(e => emitter.fire(e));
+          cancellation = token?.onCancellationRequested(cancel) ?? null;
+        }
+      },
+
+      onDidAddFirstListener() {
+        if(!buffered) return;
+
+        if(flushAfterTimeout) {
+          flushHandle = DefaultClock.setTimeout(flush, 0);
+        } else {
+          flush();
+        }
+      },
+
+      onDidRemoveLastListener() {
+        if(flushHandle) {
+          flushHandle.dispose();
+          flushHandle = null;
+        }
+
+        subscription?.dispose();
+        subscription = null;
+        cancellation?.dispose();
+        cancellation = null;
+      },
+    });
+
+    subscription = event(e => {
+      if(buffered) {
+        buffered.push(e);
+      } else {
+        emitter.fire(e);
+      }
+    });
+
+    cancellation = token?.onCancellationRequested(cancel) ?? null;
+
+    return emitter.event;
+  }
+
+  /**
+   * Given an event, returns another event which drops the values equal to the one fired right before them.
+   */
+  export function latch<T>(event: Event<T>, equals: (a: T, b: T) => boolean = (a, b) => a === b, token?: ICancellationToken): Event<T> {
+    return (listener, thisArgs, disposables) => {
+      let first = true;
+      let cache: T;
+
+      return _register(_bindToken(event(value => {
+        const shouldEmit = first || !equals(value, cache);
+
+        first = false;
+        cache = value;
+
+        if(shouldEmit) {
+          listener.call(thisArgs, value);
+        }
+      }), token), disposables);
+    };
+  }
+
+  /**
+   * Creates a promise out of an event, resolved with the next value it fires.
+   * The promise is rejected if the token is cancelled before that.
+   */
+  export function toPromise<T>(event: Event<T>, token?: ICancellationToken): Promise<T> {
+    if(token?.isCancellationRequested)
+      return Promise.reject(new Exception('Waiting for the event was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+
+    return new Promise((resolve, reject) => {
+      let subscription: IDisposable | null = null;
+
+      const cancellation = token?.onCancellationRequested(() => {
+        subscription?.dispose();
+        reject(new Exception('Waiting for the event was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+      });
+
+      subscription = once(event)(value => {
+        cancellation?.dispose();
+        resolve(value);
+      });
+    });
+  }
+
+  function _bindToken(subscription: IDisposable, token?: ICancellationToken): IDisposable {
+    if(!token) return subscription;
+
+    if(token.isCancellationRequested) {
+      subscription.dispose();
+      return subscription;
+    }
+
+    const listener = token.onCancellationRequested(() => subscription.dispose());
+
+    return toDisposable(() => {
+      listener.dispose();
+      subscription.dispose();
+    });
+  }
+
+  function _register<T extends IDisposable>(subscription: T, disposables?: IDisposable[] | DisposableStore): T {
+    if(disposables instanceof DisposableStore) {
+      disposables.add(subscription);
+    } else if(Array.isArray(disposables)) {
+      disposables.push(subscription);
+    }
+
+    return subscription;
+  }
+}
+
+
+/**
+ * Type defining the function that receives the errors thrown by event listeners,
+ * and the reports of possible listener leaks.
+ */
+export type ListenerErrorHandler = (error: unknown) => void;
+
+/**
+ * Reports the error on the console. Install it with `setListenerErrorHandler` to opt in to logging.
+ */
+export function logListenerError(error: unknown): void {
+  console.error(error);
+}
+
+/**
+ * Rethrows the error outside of the emitting call stack, so the other listeners still run but the error
+ * crashes the process unless an `uncaughtException` handler catches it. The default listener error handler.
+ */
+export function rethrowListenerError(error: unknown): void {
+  DefaultClock.setImmediate(() => { throw error; });
+}
+
+let _listenerErrorHandler: ListenerErrorHandler = rethrowListenerError;
+
+/**
+ * Replaces the handler that receives the errors thrown by event listeners,
+ * for every emitter that was not given its own handler.
+ *
+ * @param handler - The new handler.
+ * @returns {ListenerErrorHandler} The previous handler.
+ */
+export function setListenerErrorHandler(handler: ListenerErrorHandler): ListenerErrorHandler {
+  const previous = _listenerErrorHandler;
+  _listenerErrorHandler = handler;
+
+  return previous;
+}
+
+/**
+ * Forwards an error thrown by an event listener to the current listener error handler.
+ *
+ * @param error - The error thrown by the listener.
+ */
+export function onUnexpectedListenerError(error: unknown): void {
+  _listenerErrorHandler(error);
+}
+
+
+export type EmitterOptions = {
+  onWillAddFirstListener?(): void;
+  onDidAddFirstListener?(): void;
+  onDidRemoveLastListener?(): void;
+  onListenerError?: ListenerErrorHandler;
+
+  /**
+   * The number of listeners after which a possible leak is reported to the listener error handler,
+   * as an `ERR_CONSTRAINT_VIOLATION` exception. Use `0` to disable it.
+   */
+  leakWarningThreshold?: number;
+};
+
+export type EmitAsyncOptions = {
+  mode?: 'sequential' | 'parallel';
+  token?: ICancellationToken;
+};
+
+
+type ListenerRecord<T> = {
+  readonly fn: (e: T) => unknown;
+  readonly thisArgs: any;
+};
+
+export class Emitter<T> implements IDisposable {
+  #disposed: boolean = false;
+  #leakReported: boolean = false;
+  #event: Event<T> | null = null;
+  readonly #options: EmitterOptions;
+  readonly #listeners: Set<ListenerRecord<T>> = new Set();
+
+  public constructor(_options?: EmitterOptions) {
+    this.#options = _options ?? {};
+  }
+
+  /**
+   * The event subscribers can listen to.
+   */
+  public get event(): Event<T> {
+    if(!this.#event) {
+      this.#event = (listener, thisArgs, disposables) => {
+        if(this.#disposed) return toDisposable(() => void 0);
+
+        if(this.#listeners.size === 0) {
+          this.#options.onWillAddFirstListener?.();
+        }
+
+        const record: ListenerRecord<T> = { fn: listener, thisArgs };
+        this.#listeners.add(record);
+
+        if(this.#listeners.size === 1) {
+          this.#options.onDidAddFirstListener?.();
+        }
+
+        this.#checkLeak();
+
+        let removed = false;
+
+        const subscription = toDisposable(() => {
+          if(removed) return;
+          removed = true;
+
+          this.#removeListener(record);
+        });
+
+        if(disposables instanceof DisposableStore) {
+          disposables.add(subscription);
+        } else if(Array.isArray(disposables)) {
+          disposables.push(subscription);
+        }
+
+        return subscription;
+      };
+    }
+
+    return this.#event;
+  }
+
+  public get listenerCount(): number {
+    return this.#listeners.size;
+  }
+
+  public hasListeners(): boolean {
+    return this.#listeners.size > 0;
+  }
+
+  /**
+   * Synchronously calls every listener with the given event. Errors thrown by
+   * listeners are forwarded to the listener error handler.
+   */
+  public fire(event: T): void {
+    if(this.#disposed) return;
+
+    for(const listener of [...this.#listeners]) {
+      if(!this.#listeners.has(listener)) continue;
+
+      try {
+        listener.fn.call(listener.thisArgs, event);
+      } catch (err: any) {
+        this.#handleError(err);
+      }
+    }
+  }
+
+  /**
+   * Calls every listener with the given event awaiting the promises they return,
+   * either one after another or all at once, and collects their outcomes.
+   *
+   * In sequential mode the remaining listeners are skipped once the token is cancelled.
+   */
+  public async emitAsync(event: T, { mode = 'sequential', token }: EmitAsyncOptions = {}): Promise<PromiseSettledResult<unknown>[]> {
+    if(this.#disposed) return [];
+
+    const listeners = [...this.#listeners];
+
+    if(mode === 'parallel') {
+      if(token?.isCancellationRequested) return [];
+      return Promise.allSettled(listeners.map(async listener => listener.fn.call(listener.thisArgs, event)));
+    }
+
+    const results: PromiseSettledResult<unknown>[] = [];
+
+    for(const listener of listeners) {
+      if(token?.isCancellationRequested) break;
+      if(!this.#listeners.has(listener)) continue;
+
+      try {
+        results.push({ status: 'fulfilled', value: await listener.fn.call(listener.thisArgs, event) });
+      } catch (err: any) {
+        results.push({ status: 'rejected', reason: err });
+      }
+    }
+
+    return results;
+  }
+
+  public dispose(): void {
+    if(this.#disposed) return;
+    this.#disposed = true;
+
+    if(this.#listeners.size > 0) {
+      this.#listeners.clear();
+      this.#options.onDidRemoveLastListener?.();
+    }
+  }
+
+  #removeListener(record: ListenerRecord<T>): void {
+    if(!this.#listeners.delete(record)) return;
+
+    if(this.#leakReported && this.#listeners.size <= this.#leakThreshold()) {
+      this.#leakReported = false;
+    }
+
+    if(this.#listeners.size === 0) {
+      this.#options.onDidRemoveLastListener?.();
+    }
+  }
+
+  #handleError(error: unknown): void {
+    (this.#options.onListenerError ?? onUnexpectedListenerError)(error);
+  }
+
+  #leakThreshold(): number {
+    return this.#options.leakWarningThreshold ?? 200;
+  }
+
+  #checkLeak(): void {
+    const threshold = this.#leakThreshold();
+    if(threshold <= 0 || this.#leakReported || this.#listeners.size <= threshold) return;
+
+    this.#leakReported = true;
+
+    this.#handleError(new Exception(`Potential listener leak detected, ${this.#listeners.size} listeners are subscribed to this emitter (threshold: ${threshold})`, 'ERR_CONSTRAINT_VIOLATION'));
+  }
+}
@@ -0,0 +1,92 @@
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+
+import FileLock from './file-lock';
+
+
+describe('FileLock', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'file-lock-'));
+    path = join(directory, 'resource.lock');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should acquire again after release()', async () => {
+    const lock = new FileLock(path);
+
+    await lock.acquire();
+    lock.release();
+
+    const release = await lock.acquire(0, { timeout: 1000 });
+    expect(existsSync(path)).toBe(true);
+
+    release();
+    await lock.whenUnlock();
+
+    expect(lock.isLocked()).toBe(false);
+  });
+
+  test('should run the callbacks of two instances one at a time', async () => {
+    const a = new FileLock(path, { retryInterval: 5 });
+    const b = new FileLock(path, { retryInterval: 5 });
+    const order: string[] = [];
+
+    const run = (lock: FileLock, name: string) => lock.runExclusive(async () => {
+      order.push(name);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      order.push(`/${name}`);
+    });
+
+    await Promise.all([run(a, 'a'), run(b, 'b'), run(a, 'c')]);
+
+    expect(order).toHaveLength(6);
+
+    for(let i = 0; i < order.length; i += 2) {
+      expect(order[i + 1]).toBe(`/${order[i]}`);
+    }
+  });
+
+  test('should take a stale lock file over', async () => {
+    writeFileSync(path, JSON.stringify({ id: 'crashed' }));
+
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(path, past, past);
+
+    const lock = new FileLock(path, { staleTimeout: 1000 });
+    const release = await lock.acquire(0, { timeout: 1000 });
+
+    expect(JSON.parse(readFileSync(path, 'utf8')).id).not.toBe('crashed');
+    release();
+  });
+
+  test('should time out on a lock file that is kept fresh', async () => {
+    const holder = new FileLock(path, { staleTimeout: 100, heartbeatInterval: 20 });
+    const release = await holder.acquire();
+
+    const contender = new FileLock(path, { staleTimeout: 100, retryInterval: 10 });
+    await expect(contender.acquire(0, { timeout: 300 })).rejects.toThrow();
+
+    release();
+  });
+
+  test('should not remove a lock file taken over by another holder', async () => {
+    const onCompromised = jest.fn();
+    const lock = new FileLock(path, { onCompromised });
+
+    const release = await lock.acquire();
+    writeFileSync(path, JSON.stringify({ id: 'someone-else' }));
+
+    release();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(JSON.parse(readFileSync(path, 'utf8')).id).toBe('someone-else');
+    expect(onCompromised).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,315 @@
+import { hostname } from 'os';
+import { existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { assert } from '@rapid-d-kit/safe';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+import { link, open, readFile, rename, stat, unlink, utimes } from 'fs/promises';
+
+import Mutex, { IMutex } from './mutex';
+import { Exception } from './@internals/errors';
+import type { AcquireOptions } from './semaphore';
+import { DefaultClock, IClock } from './clock';
+import toLockGuard, { LockGuard } from './lock-guard';
+import { CancellationToken, CancellationTokenSource, ICancellationToken } from './cancellation';
+
+
+export type FileLockOptions = {
+  /**
+   * How long the lock file may go without a heartbeat before it is considered
+   * left behind by a crashed process and taken over, in milliseconds. Defaults to 10 seconds.
+   */
+  staleTimeout?: number;
+
+  /**
+   * How often the holder refreshes the lock file, in milliseconds. Defaults to a third of `staleTimeout`.
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * How often a waiter checks the lock file again, in milliseconds. Defaults to 100.
+   */
+  retryInterval?: number;
+
+  /**
+   * Called when the heartbeat fails or finds the lock file taken over by someone else, meaning the lock
+   * may no longer be held exclusively, or when the lock file could not be removed. Defaults to rethrowing
+   * the error outside of the lock's call stack, on the clock.
+   */
+  onCompromised?(error: unknown): void;
+
+  /**
+   * The clock of the timers, and of the modification times written to the lock file. Every process
+   * sharing the lock must use the same time, so only replace it in tests. Defaults to `DefaultClock`.
+   */
+  clock?: IClock;
+};
+
+
+type LockRecord = {
+  readonly id: string | null;
+  readonly mtimeMs: number;
+};
+
+
+/**
+ * A mutex held through a lock file, so it can be shared between processes.
+ *
+ * The file is created exclusively and its modification time is refreshed while the lock is held;
+ * a file that was not refreshed for `staleTimeout` milliseconds is removed by the next contender.
+ * The heartbeat keeps the process alive while the lock is held.
+ */
+export class FileLock implements IMutex {
+  readonly #path: string;
+  readonly #staleTimeout: number;
+  readonly #heartbeatInterval: number;
+  readonly #retryInterval: number;
+  readonly #onCompromised: (error: unknown) => void;
+  readonly #clock: IClock;
+  readonly #gate: Mutex = new Mutex();
+  readonly #sources: Set<CancellationTokenSource> = new Set();
+  #held: { id: string; heartbeat: IDisposable | null; release: LockGuard } | null = null;
+
+  public constructor(path: string, options: FileLockOptions = {}) {
+    assert(typeof path === 'string' && path.length > 0);
+
+    this.#path = path;
+    this.#staleTimeout = options.staleTimeout ?? 10_000;
+    this.#heartbeatInterval = options.heartbeatInterval ?? Math.floor(this.#staleTimeout / 3);
+    this.#retryInterval = options.retryInterval ?? 100;
+    this.#clock = options.clock ?? DefaultClock;
+    this.#onCompromised = options.onCompromised ?? (error => void this.#clock.setTimeout(() => { throw error; }, 0));
+
+    assert(this.#staleTimeout > 0 && this.#heartbeatInterval > 0 && this.#heartbeatInterval < this.#staleTimeout);
+    assert(this.#retryInterval > 0);
+  }
+
+  public get path(): string {
+    return this.#path;
+  }
+
+  public async acquire(priority: number = 0, options: AcquireOptions = {}): Promise<LockGuard> {
+    const deadline = typeof options.timeout === 'number' ? this.#clock.now() + options.timeout : Infinity;
+    const gate = await this.#gate.acquire(priority, options);
+
+    let id: string;
+
+    try {
+      id = await this.#lock(deadline, options.token);
+    } catch (err) {
+      gate();
+      throw err;
+    }
+
+    const release = toLockGuard(() => {
+      // The next local contender only goes on once the file is gone
+      void this.#unlock(id)
+        .catch(this.#onCompromised)
+        .finally(gate);
+    });
+
+    this.#held = { id, heartbeat: null, release };
+    this.#scheduleHeartbeat(id);
+
+    return release;
+  }
+
+  public runExclusive<T>(callback: () => T | Promise<T>, token?: ICancellationToken | AbortSignal): Promise<T>;
+  public runExclusive<T>(callback: () => T | Promise<T>, priority: number, token?: ICancellationToken | AbortSignal): Promise<T>;
+  public async runExclusive<T>(callback: () => T | Promise<T>, priorityOrToken?: number | ICancellationToken | AbortSignal, token?: ICancellationToken | AbortSignal): Promise<T> {
+    const cancellationToken = typeof priorityOrToken === 'number' ? token : priorityOrToken;
+
+    const release = await this.acquire(typeof priorityOrToken === 'number' ? priorityOrToken : 0, {
+      token: cancellationToken ? CancellationToken.from(cancellationToken) : undefined,
+    });
+
+    try {
+      return await callback();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Resolves once neither this instance nor any other process holds the lock.
+   */
+  public async whenUnlock(priority?: number, options: AcquireOptions = {}): Promise<void> {
+    const deadline = typeof options.timeout === 'number' ? this.#clock.now() + options.timeout : Infinity;
+    await this.#gate.whenUnlock(priority, options);
+
+    for(let record = await this.#inspect(); record && !this.#isStale(record); record = await this.#inspect()) {
+      await this.#sleep(deadline, options.token);
+    }
+  }
+
+  public isLocked(): boolean {
+    return !!this.#held || existsSync(this.#path);
+  }
+
+  /**
+   * Releases the lock if this instance holds it, like its guard would.
+   */
+  public release(): void {
+    this.#held?.release();
+  }
+
+  public cancel(): void {
+    this.#gate.cancel();
+
+    for(const source of [...this.#sources]) {
+      source.cancel();
+    }
+  }
+
+  async #lock(deadline: number, token?: ICancellationToken): Promise<string> {
+    const id = randomUUID();
+
+    for(;;) {
+      try {
+        const handle = await open(this.#path, 'wx');
+
+        try {
+          await handle.writeFile(JSON.stringify({ id, pid: process.pid, hostname: hostname(), acquiredAt: this.#clock.now() }));
+        } finally {
+          await handle.close();
+        }
+
+        await this.#touch();
+        return id;
+      } catch (err: any) {
+        if(err?.code !== 'EEXIST') throw err;
+      }
+
+      const record = await this.#inspect();
+      if(!record) continue;
+
+      if(this.#isStale(record)) {
+        // Whoever took the stale lock over since it was inspected keeps it
+        await this.#remove(current => current.id === record.id && current.mtimeMs === record.mtimeMs);
+      } else {
+        await this.#sleep(deadline, token);
+      }
+    }
+  }
+
+  async #unlock(id: string): Promise<void> {
+    if(this.#held?.id !== id) return;
+
+    this.#held.heartbeat?.dispose();
+    this.#held = null;
+
+    // A stale lock may have been taken over in the meantime, which must not be removed
+    await this.#remove(current => current.id === id);
+  }
+
+  /**
+   * Removes the lock file if it still is the one `matches` expects. The file is moved aside before
+   * being checked, and put back if it is not, so a lock file created in the meantime is not removed.
+   */
+  async #remove(matches: (record: LockRecord) => boolean): Promise<void> {
+    const aside = `${this.#path}.${randomUUID()}`;
+
+    try {
+      await rename(this.#path, aside);
+    } catch (err) {
+      return _ignoreMissing(err);
+    }
+
+    try {
+      const record = await this.#inspect(aside);
+
+      if(record && !matches(record)) {
+        await link(aside, this.#path).catch(_ignoreExisting);
+      }
+    } finally {
+      await unlink(aside).catch(_ignoreMissing);
+    }
+  }
+
+  #scheduleHeartbeat(id: string): void {
+    if(this.#held?.id !== id) return;
+
+    this.#held.heartbeat = this.#clock.setTimeout(() => {
+      void this.#heartbeat(id).finally(() => this.#scheduleHeartbeat(id));
+    }, this.#heartbeatInterval);
+  }
+
+  async #heartbeat(id: string): Promise<void> {
+    try {
+      if((await this.#ownerOf()) !== id) {
+        throw new Exception(`The lock file ${this.#path} was taken over by another holder`, 'ERR_CONSTRAINT_VIOLATION');
+      }
+
+      await this.#touch();
+    } catch (err) {
+      if(this.#held?.id === id) {
+        this.#onCompromised(err);
+      }
+    }
+  }
+
+  #touch(): Promise<void> {
+    const now = new Date(this.#clock.now());
+    return utimes(this.#path, now, now);
+  }
+
+  #isStale(record: LockRecord): boolean {
+    return this.#clock.now() - record.mtimeMs > this.#staleTimeout;
+  }
+
+  async #inspect(path: string = this.#path): Promise<LockRecord | null> {
+    try {
+      const { mtimeMs } = await stat(path);
+      return { id: await this.#ownerOf(path), mtimeMs };
+    } catch (err: any) {
+      if(err?.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async #ownerOf(path: string = this.#path): Promise<string | null> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8')).id ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  async #sleep(deadline: number, token?: ICancellationToken): Promise<void> {
+    const remaining = deadline - this.#clock.now();
+
+    if(remaining <= 0) {
+      throw new Exception(`Timed out waiting for the lock file ${this.#path}`, 'ERR_TIMEOUT');
+    }
+
+    const source = new CancellationTokenSource(token);
+    this.#sources.add(source);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const listener = source.token.onCancellationRequested(() => {
+          timer.dispose();
+          reject(new Exception('Async execution of file lock method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+        });
+
+        const timer = this.#clock.setTimeout(() => {
+          listener.dispose();
+          resolve();
+        }, Math.min(this.#retryInterval, remaining));
+      });
+    } finally {
+      this.#sources.delete(source);
+      source.dispose();
+    }
+  }
+}
+
+
+function _ignoreMissing(err: any): void {
+  if(err?.code !== 'ENOENT') throw err;
+}
+
+function _ignoreExisting(err: any): void {
+  if(err?.code !== 'EEXIST') throw err;
+}
+
+export default FileLock;
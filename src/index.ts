@@ -1,6 +1,39 @@
 export * from './cancellation';
+export * from './clock';
 export * from './core';
 export * from './event-emitter';
-export { IMutex, Mutex } from './mutex';
+export * from './events';
+export { AsyncIterables } from './async-iterables';
+export { Barrier } from './barrier';
+export { Bulkhead, BulkheadOptions } from './bulkhead';
+export { Channel, ChannelWaitOptions, select, SelectCase, SelectResult } from './channel';
+export { CircuitBreaker, CircuitBreakerOptions, CircuitState } from './circuit-breaker';
+export { CoalescedTask, Delayer, Limiter, Sequencer, SequencerByKey, Throttler } from './coalescing';
+export { Condition } from './condition';
+export { DeferredPromise } from './deferred';
+export { FileLock, FileLockOptions } from './file-lock';
+export { KeyedLockOptions, KeyedMutex, KeyedSemaphore, KeyedSemaphoreOptions } from './keyed-mutex';
+export { CountdownLatch } from './latch';
+export { LockGuard, toLockGuard } from './lock-guard';
+export { IMutex, Mutex, MutexAcquireOptions, MutexOptions } from './mutex';
+export { Policy, PolicyEvents, PolicyTask } from './policy';
 export { promises } from './promises';
-export { ISemaphore, Semaphore } from './semaphore';
+export { AsyncQueue, AsyncQueueEvents, AsyncQueueOptions, QueueTask, QueueTaskOptions } from './queue';
+export { IQueuePolicy, QueuedAcquisition, QueuePolicy } from './queue-policy';
+export { IRateLimiter, RateLimiter, RateLimiterOptions, RateLimitStrategy } from './rate-limiter';
+export { AutoResetEvent, IResetEvent, ManualResetEvent } from './reset-event';
+export { IRWLock, IRWLockHandle, RWLock, RWLockOptions, RWLockPolicy } from './rwlock';
+export {
+  AcquireOptions,
+  ISemaphore,
+  Semaphore,
+  SemaphoreEvents,
+  SemaphoreHolder,
+  SemaphoreLock,
+  SemaphoreOptions,
+  SemaphoreStats,
+  WaitTimeHistogram,
+} from './semaphore';
+export { SharedMutex, SharedSemaphore, SharedSemaphoreOptions } from './shared-semaphore';
+export { singleFlight, SingleFlightFunction } from './single-flight';
+export { TaskGroup, TaskGroupOptions } from './task-group';
@@ -0,0 +1,79 @@
+import { Async } from './core';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource } from './cancellation';
+import { KeyedMutex, KeyedSemaphore } from './keyed-mutex';
+
+
+describe('KeyedMutex', () => {
+  test('should serialize the callbacks of one key and drop it once released', async () => {
+    const mutex = new KeyedMutex<string>();
+    const order: string[] = [];
+
+    const run = (key: string, name: string) => mutex.runExclusive(key, async () => {
+      order.push(`${name}:start`);
+      await Async.delay(5);
+      order.push(`${name}:end`);
+    });
+
+    await Promise.all([run('a', 'first'), run('a', 'second'), run('b', 'other')]);
+
+    expect(order.indexOf('second:start')).toBeGreaterThan(order.indexOf('first:end'));
+    expect(order.indexOf('other:start')).toBeLessThan(order.indexOf('first:end'));
+    expect(mutex.size).toBe(0);
+  });
+
+  test('should lock distinct symbols sharing a description in the same order', async () => {
+    const mutex = new KeyedMutex<symbol>();
+    const a = Symbol('key');
+    const b = Symbol('key');
+
+    const run = (keys: symbol[]) => mutex.runExclusiveMany(keys, () => Async.delay(5), { timeout: 1000 });
+
+    await expect(Promise.all([run([a, b]), run([b, a])])).resolves.toBeDefined();
+    expect(mutex.size).toBe(0);
+  });
+
+  test('should tell apart keys of different types with the same string form', async () => {
+    const mutex = new KeyedMutex<unknown>();
+    const run = (keys: unknown[]) => mutex.runExclusiveMany(keys, () => Async.delay(5), { timeout: 1000 });
+
+    await expect(Promise.all([
+      run([1, 1n, null, 'null']),
+      run(['null', null, 1n, 1]),
+    ])).resolves.toBeDefined();
+  });
+
+  test('should reject once the token is cancelled while the callback runs', async () => {
+    const mutex = new KeyedMutex<string>();
+    const source = new CancellationTokenSource();
+
+    let finish!: () => void;
+    const callback = new Promise<void>(resolve => void (finish = resolve));
+
+    const result = mutex.runExclusive('a', () => callback, { token: source.token }).catch(err => err);
+    await Async.delay(0);
+
+    source.cancel();
+
+    expect((await result).code).toBe(ErrorCode.for('ERR_TOKEN_CANCELLED').getCode());
+    expect(mutex.isLocked('a')).toBe(true);
+
+    finish();
+    await mutex.acquire('a').then(release => release());
+
+    expect(mutex.size).toBe(0);
+  });
+
+  test('should release the keys already held when one of them times out', async () => {
+    const semaphore = new KeyedSemaphore<string>(1);
+    const release = await semaphore.acquire('b');
+
+    const error = await semaphore.acquireMany(['a', 'b'], { timeout: 10 }).catch(err => err);
+
+    expect(error.code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+    expect(semaphore.isLocked('a')).toBe(false);
+
+    release();
+    expect(semaphore.size).toBe(0);
+  });
+});
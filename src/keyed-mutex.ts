@@ -0,0 +1,302 @@
+import { assert } from '@rapid-d-kit/safe';
+
+import promises from './promises';
+import Semaphore from './semaphore';
+import { Exception } from './@internals/errors';
+import toLockGuard, { LockGuard } from './lock-guard';
+import { CancellationToken, ICancellationToken } from './cancellation';
+
+
+export type KeyedLockOptions = {
+  weight?: number;
+  priority?: number;
+  token?: ICancellationToken | AbortSignal;
+  timeout?: number;
+};
+
+export type KeyedSemaphoreOptions<K> = {
+  /**
+   * Orders the keys of a multi-key acquisition. Every caller taking several keys
+   * locks them in this order, which is what keeps them from deadlocking each other.
+   *
+   * Defaults to comparing numbers and bigints by value, strings and other primitives
+   * by their string form, and objects by the order they were first seen in. Distinct keys
+   * that still compare equal, like two symbols with the same description, are ordered
+   * by their type and then by the order they were first seen in.
+   */
+  compare?: (a: K, b: K) => number;
+};
+
+
+type Entry = {
+  semaphore: Semaphore;
+  refs: number;
+};
+
+
+/**
+ * A registry of semaphores, one per key, created on first use and dropped
+ * as soon as nobody holds or waits for them anymore.
+ */
+export class KeyedSemaphore<K> {
+  #capacity: number;
+  #entries: Map<K, Entry> = new Map();
+  #compare: (a: K, b: K) => number;
+
+  public constructor(capacity: number, { compare = _defaultCompare }: KeyedSemaphoreOptions<K> = {}) {
+    assert(typeof capacity === 'number' && Number.isInteger(capacity) && capacity > 0);
+
+    this.#capacity = capacity;
+    this.#compare = compare;
+  }
+
+  /**
+   * The number of keys currently held or waited for.
+   */
+  public get size(): number {
+    return this.#entries.size;
+  }
+
+  public has(key: K): boolean {
+    return this.#entries.has(key);
+  }
+
+  public isLocked(key: K): boolean {
+    return this.#entries.get(key)?.semaphore.isLocked() ?? false;
+  }
+
+  public async acquire(key: K, { weight = 1, priority = 0, token, timeout }: KeyedLockOptions = {}): Promise<LockGuard> {
+    const entry = this.#retain(key);
+
+    try {
+      const [, release] = await entry.semaphore.acquire(weight, priority, {
+        token: token ? CancellationToken.from(token) : undefined,
+        timeout,
+      });
+
+      return toLockGuard(() => {
+        release();
+        this.#unretain(key, entry);
+      });
+    } catch (err: any) {
+      this.#unretain(key, entry);
+      throw err;
+    }
+  }
+
+  /**
+   * Acquires every key, always in the order given by the `compare` option whatever the order of `keys`.
+   * If any of them cannot be acquired, the ones already held are released before rejecting.
+   *
+   * @returns {Promise<LockGuard>} A guard releasing every key at once.
+   */
+  public async acquireMany(keys: Iterable<K>, options?: KeyedLockOptions): Promise<LockGuard> {
+    const ordered = [...new Set(keys)].sort(this.#compare);
+    const releasers: (() => void)[] = [];
+
+    try {
+      for(const key of ordered) {
+        releasers.push(await this.acquire(key, options));
+      }
+    } catch (err: any) {
+      _releaseAll(releasers);
+      throw err;
+    }
+
+    return toLockGuard(() => _releaseAll(releasers));
+  }
+
+  /**
+   * Runs the callback while holding `key`. Like `Semaphore.runExclusive`, the returned promise is rejected
+   * as soon as the token is cancelled, even while the callback runs; the key is held until it settles anyway.
+   */
+  public runExclusive<T>(key: K, callback: () => T | Promise<T>, options?: KeyedLockOptions): Promise<T> {
+    return this.#run(() => this.acquire(key, options), callback, options?.token);
+  }
+
+  public runExclusiveMany<T>(keys: Iterable<K>, callback: () => T | Promise<T>, options?: KeyedLockOptions): Promise<T> {
+    return this.#run(() => this.acquireMany(keys, options), callback, options?.token);
+  }
+
+  /**
+   * Rejects the pending waiters of `key`, or of every key if it is omitted.
+   */
+  public cancelPending(key?: K, reason?: any): void {
+    if(typeof key === 'undefined') {
+      for(const entry of [...this.#entries.values()]) {
+        entry.semaphore.cancelPending(reason);
+      }
+    } else {
+      this.#entries.get(key)?.semaphore.cancelPending(reason);
+    }
+  }
+
+  #run<T>(acquire: () => Promise<LockGuard>, callback: () => T | Promise<T>, tokenOrSignal?: ICancellationToken | AbortSignal): Promise<T> {
+    const token = CancellationToken.from(tokenOrSignal);
+
+    return promises.withAsyncBody<T, unknown>(async (resolve, reject) => {
+      if(token.isCancellationRequested) {
+        reject(new Exception('Async execution of keyed semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+        return;
+      }
+
+      const listener = token.onCancellationRequested(() => {
+        reject(new Exception('Async execution of keyed semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+      });
+
+      try {
+        const release = await acquire();
+
+        try {
+          resolve(await callback());
+        } catch (err: any) {
+          reject(err);
+        } finally {
+          release();
+        }
+      } finally {
+        listener.dispose();
+      }
+    });
+  }
+
+  #retain(key: K): Entry {
+    let entry = this.#entries.get(key);
+
+    if(!entry) {
+      entry = { semaphore: new Semaphore(this.#capacity), refs: 0 };
+      this.#entries.set(key, entry);
+    }
+
+    entry.refs++;
+    return entry;
+  }
+
+  #unretain(key: K, entry: Entry): void {
+    if(--entry.refs > 0) return;
+
+    if(this.#entries.get(key) === entry) {
+      this.#entries.delete(key);
+    }
+  }
+}
+
+
+/**
+ * A registry of mutexes, one per key, created on first use and dropped
+ * as soon as nobody holds or waits for them anymore.
+ */
+export class KeyedMutex<K> {
+  #semaphore: KeyedSemaphore<K>;
+
+  public constructor(options?: KeyedSemaphoreOptions<K>) {
+    this.#semaphore = new KeyedSemaphore(1, options);
+  }
+
+  public get size(): number {
+    return this.#semaphore.size;
+  }
+
+  public has(key: K): boolean {
+    return this.#semaphore.has(key);
+  }
+
+  public isLocked(key: K): boolean {
+    return this.#semaphore.isLocked(key);
+  }
+
+  public acquire(key: K, options?: Omit<KeyedLockOptions, 'weight'>): Promise<LockGuard> {
+    return this.#semaphore.acquire(key, { ...options, weight: 1 });
+  }
+
+  public acquireMany(keys: Iterable<K>, options?: Omit<KeyedLockOptions, 'weight'>): Promise<LockGuard> {
+    return this.#semaphore.acquireMany(keys, { ...options, weight: 1 });
+  }
+
+  public runExclusive<T>(key: K, callback: () => T | Promise<T>, options?: Omit<KeyedLockOptions, 'weight'>): Promise<T> {
+    return this.#semaphore.runExclusive(key, callback, { ...options, weight: 1 });
+  }
+
+  public runExclusiveMany<T>(keys: Iterable<K>, callback: () => T | Promise<T>, options?: Omit<KeyedLockOptions, 'weight'>): Promise<T> {
+    return this.#semaphore.runExclusiveMany(keys, callback, { ...options, weight: 1 });
+  }
+
+  public cancel(key?: K, reason?: any): void {
+    this.#semaphore.cancelPending(key, reason);
+  }
+}
+
+
+function _releaseAll(releasers: (() => void)[]): void {
+  for(let i = releasers.length - 1; i >= 0; i--) {
+    releasers[i]();
+  }
+}
+
+const _objectOrder: WeakMap<object, number> = new WeakMap();
+const _symbolOrder: Map<symbol, number> = new Map();
+let _nextObjectOrder = 0;
+
+function _rank(value: unknown): number {
+  switch(typeof value) {
+    case 'number':
+    case 'bigint':
+      return 0;
+    case 'object':
+    case 'function':
+      return value === null ? 1 : 2;
+    default:
+      return 1;
+  }
+}
+
+function _defaultCompare(a: unknown, b: unknown): number {
+  const ra = _rank(a);
+  const rb = _rank(b);
+
+  if(ra !== rb) return ra - rb;
+
+  if(ra === 2) {
+    const oa = _objectOrderOf(a as object);
+    const ob = _objectOrderOf(b as object);
+
+    return oa - ob;
+  }
+
+  const [va, vb] = ra === 0 ? [a as number, b as number] : [String(a), String(b)];
+  if(va < vb) return -1;
+  if(va > vb) return 1;
+
+  // Equal values of different types, e.g. `1` and `1n` or `null` and `'null'`
+  const ta = typeof a;
+  const tb = typeof b;
+
+  if(ta !== tb) return ta < tb ? -1 : 1;
+
+  // Only distinct symbols sharing a description are left
+  return a === b || ta !== 'symbol' ? 0 : _symbolOrderOf(a as symbol) - _symbolOrderOf(b as symbol);
+}
+
+function _objectOrderOf(value: object): number {
+  let order = _objectOrder.get(value);
+
+  if(typeof order === 'undefined') {
+    order = _nextObjectOrder++;
+    _objectOrder.set(value, order);
+  }
+
+  return order;
+}
+
+function _symbolOrderOf(value: symbol): number {
+  let order = _symbolOrder.get(value);
+
+  if(typeof order === 'undefined') {
+    order = _nextObjectOrder++;
+    _symbolOrder.set(value, order);
+  }
+
+  return order;
+}
+
+export default KeyedMutex;
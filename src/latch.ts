@@ -0,0 +1,42 @@
+import { assert } from '@rapid-d-kit/safe';
+
+import { WaiterQueue } from './@internals/waiters';
+import type { ICancellationToken } from './cancellation';
+
+
+/**
+ * A one-shot gate that opens once it has been counted down to zero.
+ */
+export class CountdownLatch {
+  #count: number;
+  #waiters: WaiterQueue = new WaiterQueue();
+
+  public constructor(count: number) {
+    assert(typeof count === 'number' && Number.isInteger(count) && count >= 0);
+    this.#count = count;
+  }
+
+  public get count(): number {
+    return this.#count;
+  }
+
+  public countDown(steps: number = 1): void {
+    assert(typeof steps === 'number' && Number.isInteger(steps) && steps > 0);
+    if(this.#count === 0) return;
+
+    this.#count = Math.max(0, this.#count - steps);
+
+    if(this.#count === 0) {
+      this.#waiters.resolveAll();
+    }
+  }
+
+  public wait(token?: ICancellationToken): Promise<void> {
+    if(this.#count === 0)
+      return Promise.resolve();
+
+    return this.#waiters.wait(token);
+  }
+}
+
+export default CountdownLatch;
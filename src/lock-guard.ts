@@ -0,0 +1,37 @@
+import './@internals/polyfills';
+
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+
+/**
+ * The release function of a lock, which can also be disposed of, so `using` releases it
+ * at the end of its scope. Calling or disposing it more than once has no effect.
+ */
+export interface LockGuard extends IDisposable, Disposable, AsyncDisposable {
+  (): void;
+  readonly released: boolean;
+}
+
+
+/**
+ * Turns a release function into a `LockGuard` calling it at most once.
+ */
+export function toLockGuard(release: () => void): LockGuard {
+  let released = false;
+
+  const guard = () => {
+    if(released) return;
+    released = true;
+
+    release();
+  };
+
+  return Object.defineProperties(guard, {
+    released: { get: () => released },
+    dispose: { value: guard },
+    [Symbol.dispose]: { value: guard },
+    [Symbol.asyncDispose]: { value: () => Promise.resolve(guard()) },
+  }) as LockGuard;
+}
+
+export default toLockGuard;
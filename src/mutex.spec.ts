@@ -0,0 +1,92 @@
+import Mutex from './mutex';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource, isCancellationError } from './cancellation';
+
+
+describe('Mutex', () => {
+  test('should refuse to release a mutex that was not acquired', () => {
+    const mutex = new Mutex();
+    expect(() => mutex.release()).toThrow();
+  });
+
+  test('should release the current acquisition and disarm its guard', async () => {
+    const mutex = new Mutex();
+    const first = await mutex.acquire();
+
+    mutex.release();
+    expect(mutex.isLocked()).toBe(false);
+
+    const second = await mutex.acquire();
+
+    first();
+    expect(mutex.isLocked()).toBe(true);
+
+    second();
+    expect(mutex.isLocked()).toBe(false);
+    expect(() => mutex.release()).toThrow();
+  });
+
+  test('should only let the owner release a reentrant mutex', async () => {
+    const mutex = new Mutex({ reentrant: true });
+    const owner = {};
+
+    const outer = await mutex.acquire(0, { owner });
+    const inner = await mutex.acquire(0, { owner });
+
+    expect(() => mutex.release({})).toThrow();
+
+    inner();
+    expect(mutex.isLocked()).toBe(true);
+
+    outer();
+    expect(mutex.isLocked()).toBe(false);
+  });
+
+  test('should let runExclusive callbacks re-enter a reentrant mutex', async () => {
+    const mutex = new Mutex({ reentrant: true });
+
+    const result = await mutex.runExclusive(() => mutex.runExclusive(() => 42));
+
+    expect(result).toBe(42);
+    expect(mutex.isLocked()).toBe(false);
+  });
+
+  test.each([false, true])('should reject runExclusive once its token is cancelled (reentrant: %s)', async reentrant => {
+    const mutex = new Mutex({ reentrant });
+    const source = new CancellationTokenSource();
+
+    let finish!: () => void;
+    const running = mutex.runExclusive(() => new Promise<void>(resolve => void (finish = resolve)), source.token);
+
+    await Promise.resolve();
+    source.cancel();
+
+    expect(isCancellationError(await running.catch(err => err))).toBe(true);
+
+    finish();
+    await mutex.whenUnlock();
+
+    expect(mutex.isLocked()).toBe(false);
+  });
+
+  test('should give up locking back after releaseUntil when asked to', async () => {
+    const mutex = new Mutex();
+    const release = await mutex.acquire();
+
+    let resume!: () => void;
+    const pending = mutex.releaseUntil(() => new Promise<void>(resolve => void (resume = resolve)), 0, { timeout: 10 });
+
+    const other = await mutex.acquire();
+    resume();
+
+    const error = await pending.catch(err => err);
+    expect(error.code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+
+    // The guard of the first acquisition no longer holds anything
+    release();
+    expect(mutex.isLocked()).toBe(true);
+
+    other();
+    expect(mutex.isLocked()).toBe(false);
+  });
+});
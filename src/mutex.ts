@@ -1,53 +1,204 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+import type { LooseAutocomplete } from '@rapid-d-kit/types';
+
 import { Async } from './core';
-import Semaphore from './semaphore';
-import { ICancellationToken } from './cancellation';
+import promises from './promises';
+import { Exception } from './@internals/errors';
+import toLockGuard, { LockGuard } from './lock-guard';
+import type { ListenerCallback } from './event-emitter';
+import { CancellationToken, ICancellationToken } from './cancellation';
+import Semaphore, { AcquireOptions, SemaphoreEvents, SemaphoreOptions, SemaphoreStats } from './semaphore';
+
+
+export type MutexOptions = Omit<SemaphoreOptions, 'capacity'> & {
+  /**
+   * Tracks the owner of the mutex: only the owner may release it through `release()`, and the owner
+   * may acquire it again without deadlocking, the mutex being unlocked once every acquisition was released.
+   *
+   * A callback run by `runExclusive` is an owner on its own, so whatever it awaits can re-enter the mutex,
+   * including the tasks it starts. Other callers identify themselves with the `owner` acquire option.
+   */
+  reentrant?: boolean;
+};
 
+export type MutexAcquireOptions = AcquireOptions & {
+  owner?: object;
+};
 
 export interface IMutex extends Async.IAbstractConcurrencyHandler {
-  acquire(priority?: number): Promise<() => void>;
-  runExclusive<T>(callback: () => T | Promise<T>, token: ICancellationToken): Promise<T>;
-  runExclusive<T>(callback: () => T | Promise<T>, priority: number, token?: ICancellationToken): Promise<T>;
-  whenUnlock(priority?: number): Promise<void>;
+  acquire(priority?: number, options?: MutexAcquireOptions): Promise<LockGuard>;
+  runExclusive<T>(callback: () => T | Promise<T>, token: ICancellationToken | AbortSignal): Promise<T>;
+  runExclusive<T>(callback: () => T | Promise<T>, priority: number, token?: ICancellationToken | AbortSignal): Promise<T>;
+  whenUnlock(priority?: number, options?: AcquireOptions): Promise<void>;
   cancel(): void;
 }
 
+type Hold = {
+  owner: object | null;
+  depth: number;
+  release: LockGuard;
+};
+
 export class Mutex implements IMutex {
-  #semaphore: Semaphore = new Semaphore(1);
+  #semaphore: Semaphore;
+  #hold: Hold | null = null;
+  readonly #context: AsyncLocalStorage<object> | null;
+
+  public constructor({ reentrant = false, ...options }: MutexOptions = {}) {
+    this.#semaphore = new Semaphore(1, options);
+    this.#context = reentrant ? new AsyncLocalStorage() : null;
+  }
+
+  public get isReentrant(): boolean {
+    return !!this.#context;
+  }
+
+  public async acquire(priority: number = 0, { owner, ...options }: MutexAcquireOptions = {}): Promise<LockGuard> {
+    const caller = this.#callerOf(owner);
+
+    if(caller && this.#hold?.owner === caller) {
+      this.#hold.depth++;
+      return this.#guard(this.#hold);
+    }
 
-  public async acquire(priority: number = 0): Promise<() => void> {
-    const [, releaser] = await this.#semaphore.acquire(1, priority);
-    return releaser;
+    const [, release] = await this.#semaphore.acquire(1, priority, options);
+    const hold: Hold = { owner: caller, depth: 1, release };
+
+    this.#hold = hold;
+    return this.#guard(hold);
   }
 
-  public runExclusive<T>(callback: () => T | Promise<T>, token?: ICancellationToken): Promise<T>;
-  public runExclusive<T>(callback: () => T | Promise<T>, priority: number, token?: ICancellationToken): Promise<T>;
-  public runExclusive<T>(callback: () => T | Promise<T>, priorityOrToken?: number | ICancellationToken, token?: ICancellationToken): Promise<T> {
-    const cancellationToken = typeof priorityOrToken === 'number' ? token : priorityOrToken;
+  public runExclusive<T>(callback: () => T | Promise<T>, token?: ICancellationToken | AbortSignal): Promise<T>;
+  public runExclusive<T>(callback: () => T | Promise<T>, priority: number, token?: ICancellationToken | AbortSignal): Promise<T>;
+  public runExclusive<T>(callback: () => T | Promise<T>, priorityOrToken?: number | ICancellationToken | AbortSignal, token?: ICancellationToken | AbortSignal): Promise<T> {
     const priorityValue = typeof priorityOrToken === 'number' ? priorityOrToken : 0;
+    const cancellation = CancellationToken.from(typeof priorityOrToken === 'number' ? token : priorityOrToken);
+
+    // A callback is an owner on its own in reentrant mode, unless it runs within another one
+    const owner = this.#context ? this.#context.getStore() ?? {} : undefined;
+
+    // Settles as soon as the token is cancelled, like `Semaphore.runExclusive`
+    const run = () => promises.withAsyncBody<T, unknown>(async (resolve, reject) => {
+      if(cancellation.isCancellationRequested) {
+        reject(new Exception('Async execution of mutex method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+        return;
+      }
 
-    return this.#semaphore.runExclusive(() => callback(), {
-      priority: priorityValue,
-      token: cancellationToken,
+      const listener = cancellation.onCancellationRequested(() => {
+        reject(new Exception('Async execution of mutex method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+      });
+
+      try {
+        const release = await this.acquire(priorityValue, { owner, token: cancellation });
+
+        try {
+          resolve(await callback());
+        } catch (err: any) {
+          reject(err);
+        } finally {
+          release();
+        }
+      } finally {
+        listener.dispose();
+      }
     });
+
+    return this.#context && owner ? this.#context.run(owner, run) : run();
   }
 
-  public whenUnlock(priority?: number): Promise<void> {
-    return this.#semaphore.whenUnlock(1, priority);
+  public whenUnlock(priority?: number, options?: AcquireOptions): Promise<void> {
+    return this.#semaphore.whenUnlock(1, priority, options);
   }
 
   public isLocked(): boolean {
     return this.#semaphore.isLocked();
   }
 
-  public release(): void {
-    if(this.#semaphore.isLocked()) {
-      this.#semaphore.release();
+  /**
+   * Unlocks the mutex on behalf of the current acquisition, whose guard is disarmed.
+   * In reentrant mode, only its owner may do so, and every nested acquisition is released at once.
+   *
+   * Throws an `ERR_CONSTRAINT_VIOLATION` exception if the mutex was not acquired, or by somebody else in reentrant mode.
+   * Prefer calling the guard returned by `acquire`, which can only release the acquisition it was returned for.
+   */
+  public release(owner?: object): void {
+    if(!this.#hold) {
+      throw new Exception('The mutex cannot be released as it was not acquired', 'ERR_CONSTRAINT_VIOLATION');
+    }
+
+    if(this.#context && this.#callerOf(owner) !== this.#hold.owner) {
+      throw new Exception('The mutex can only be released by its owner', 'ERR_CONSTRAINT_VIOLATION');
+    }
+
+    this.#unlock();
+  }
+
+  /**
+   * Unlocks the mutex until the promise returned by `wait` settles, then locks it back for the same holder
+   * before settling like it. The guards of the holder stay valid, and release the mutex once it was locked back.
+   * Locking it back follows `options`: if it times out or is cancelled, the holder is left without the mutex,
+   * its guards are disarmed and the promise is rejected with the acquisition error.
+   *
+   * This is how a `Condition` waits. In reentrant mode, only the owner may do so.
+   */
+  public async releaseUntil<T>(wait: () => Promise<T>, priority: number = 0, options: AcquireOptions = {}): Promise<T> {
+    const hold = this.#hold;
+
+    if(!hold || (this.#context && this.#callerOf() !== hold.owner)) {
+      throw new Exception('The mutex can only be released by its owner', 'ERR_CONSTRAINT_VIOLATION');
+    }
+
+    // Started before unlocking, so nothing happening in between is missed
+    const promise = wait();
+
+    this.#hold = null;
+    hold.release();
+
+    try {
+      return await promise;
+    } finally {
+      [, hold.release] = await this.#semaphore.acquire(1, priority, options);
+      this.#hold = hold;
     }
   }
 
   public cancel(): void {
     this.#semaphore.cancelPending();
   }
+
+  public getStats(): SemaphoreStats {
+    return this.#semaphore.getStats();
+  }
+
+  public addListener<K extends keyof SemaphoreEvents>(event: LooseAutocomplete<K>, listener: ListenerCallback<SemaphoreEvents[K]>): IDisposable {
+    return this.#semaphore.addListener(event, listener);
+  }
+
+  public removeListener<K extends keyof SemaphoreEvents>(event: LooseAutocomplete<K>, listener: ListenerCallback<SemaphoreEvents[K]>): boolean {
+    return this.#semaphore.removeListener(event, listener);
+  }
+
+  #callerOf(owner?: object): object | null {
+    return owner ?? this.#context?.getStore() ?? null;
+  }
+
+  #guard(hold: Hold): LockGuard {
+    return toLockGuard(() => {
+      // The hold was released on its holder's behalf in the meantime, or is suspended by a condition
+      if(this.#hold !== hold) return;
+      if(--hold.depth > 0) return;
+
+      this.#unlock();
+    });
+  }
+
+  #unlock(): void {
+    const hold = this.#hold;
+    this.#hold = null;
+
+    hold?.release();
+  }
 }
 
 export default Mutex;
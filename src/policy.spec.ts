@@ -0,0 +1,96 @@
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import Policy from './policy';
+import { VirtualClock } from './testing';
+import CircuitBreaker from './circuit-breaker';
+import { ErrorCode } from './@internals/errors';
+import type { ICancellationToken } from './cancellation';
+
+
+describe('Policy', () => {
+  let clock: VirtualClock;
+  let installation: IDisposable;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    installation = clock.install();
+  });
+
+  afterEach(() => {
+    installation.dispose();
+  });
+
+  test('should time a task out and cancel its token', async () => {
+    const policy = Policy.timeout(100);
+    const timeouts: number[] = [];
+    let token!: ICancellationToken;
+
+    policy.addListener('timeout', timeout => void timeouts.push(timeout));
+
+    const result = policy.execute(t => {
+      token = t;
+      return new Promise<never>(() => void 0);
+    }).catch(err => err);
+
+    await clock.advanceBy(100);
+
+    expect((await result).code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+    expect(token.isCancellationRequested).toBe(true);
+    expect(timeouts).toEqual([100]);
+  });
+
+  test('should retry a failing task and report each retry', async () => {
+    const policy = Policy.retry({ retries: 2, minDelay: 10, jitter: 'none' });
+    const retries: number[] = [];
+    let calls = 0;
+
+    policy.addListener('retry', (_error, attempt) => void retries.push(attempt));
+
+    const result = policy.execute(async () => {
+      if(++calls < 3) throw new Error('faulty');
+      return calls;
+    });
+
+    await clock.runAllPending();
+
+    await expect(result).resolves.toBe(3);
+    expect(retries).toEqual([1, 2]);
+  });
+
+  test('should compose the policies, the first one being the outermost', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const policy = Policy.wrap(Policy.retry({ retries: 3, minDelay: 10, jitter: 'none' }), breaker);
+    const events: string[] = [];
+
+    policy.addListener('retry', () => void events.push('retry'));
+    policy.addListener('stateChange', state => void events.push(state));
+    policy.addListener('rejected', () => void events.push('rejected'));
+
+    const task = jest.fn(() => Promise.reject(new Error('faulty')));
+    const result = policy.execute(task).catch(err => err);
+
+    await clock.advanceBy(1000);
+
+    expect(await result).toBeInstanceOf(Error);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(events).toEqual(['retry', 'open', 'retry', 'rejected', 'retry', 'rejected']);
+
+    policy.dispose();
+    breaker.dispose();
+  });
+
+  test('should stop reporting the events of the wrapped policies once disposed', async () => {
+    const inner = Policy.timeout(10);
+    const policy = Policy.wrap(inner);
+    const timeouts = jest.fn();
+
+    policy.addListener('timeout', timeouts);
+    policy.dispose();
+
+    const result = inner.execute(() => new Promise<never>(() => void 0)).catch(err => err);
+    await clock.advanceBy(10);
+    await result;
+
+    expect(timeouts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+/* eslint-disable @typescript-eslint/no-namespace */
+/* eslint-disable no-inner-declarations */
+
+import { assert } from '@rapid-d-kit/safe';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+import type { LooseAutocomplete } from '@rapid-d-kit/types';
+
+import { Async } from './core';
+import { ErrorCode, Exception } from './@internals/errors';
+import type { CircuitState } from './circuit-breaker';
+import { ListenerCallback, WeakEventEmitter } from './event-emitter';
+import { CancellationToken, ICancellationToken } from './cancellation';
+
+
+export type PolicyTask<T> = (token: ICancellationToken) => T | Promise<T>;
+
+export type PolicyEvents = {
+  stateChange: [state: CircuitState, previous: CircuitState];
+  rejected: [error: Exception];
+  retry: [error: unknown, attempt: number, delay: number];
+  timeout: [timeout: number];
+};
+
+
+/**
+ * A resilience policy, running tasks under some rule (a timeout, retries, a circuit breaker...).
+ * Policies are composed with `Policy.wrap`, which reports the events of every policy it holds.
+ */
+export abstract class Policy implements IDisposable {
+  protected readonly _events: WeakEventEmitter<PolicyEvents> = new WeakEventEmitter();
+
+  public abstract execute<T>(task: PolicyTask<T>, token?: ICancellationToken): Promise<T>;
+
+  public addListener<K extends keyof PolicyEvents>(event: LooseAutocomplete<K>, listener: ListenerCallback<PolicyEvents[K]>): IDisposable {
+    return this._events.addListener(event, listener);
+  }
+
+  public removeListener<K extends keyof PolicyEvents>(event: LooseAutocomplete<K>, listener: ListenerCallback<PolicyEvents[K]>): boolean {
+    return this._events.removeListener(event, listener);
+  }
+
+  public dispose(): void {
+    this._events.dispose();
+  }
+}
+
+
+export namespace Policy {
+  /**
+   * A policy rejecting with an `ERR_TIMEOUT` exception the tasks running longer than `timeout` milliseconds,
+   * cancelling their token.
+   */
+  export function timeout(timeout: number): Policy {
+    assert(typeof timeout === 'number' && timeout >= 0);
+    return new TimeoutPolicy(timeout);
+  }
+
+  /**
+   * A policy calling a failing task again, as `Async.retry` does.
+   */
+  export function retry(options?: Omit<Async.RetryOptions, 'token'>): Policy {
+    return new RetryPolicy(options);
+  }
+
+  /**
+   * Composes `policies`, the first one being the outermost: `wrap(retry, breaker, timeout)`
+   * retries calls going through the breaker, each of them bounded by the timeout.
+   */
+  export function wrap(...policies: Policy[]): Policy {
+    assert(policies.length > 0);
+    return new PolicyWrap(policies);
+  }
+}
+
+
+class TimeoutPolicy extends Policy {
+  public constructor(private readonly _timeout: number) {
+    super();
+  }
+
+  public async execute<T>(task: PolicyTask<T>, token?: ICancellationToken): Promise<T> {
+    try {
+      return await Async.timeout(task, this._timeout, token);
+    } catch (err: any) {
+      if(err instanceof Exception && err.code === ErrorCode.for('ERR_TIMEOUT').getCode()) {
+        this._events.emit('timeout', this._timeout);
+      }
+
+      throw err;
+    }
+  }
+}
+
+class RetryPolicy extends Policy {
+  public constructor(private readonly _options: Omit<Async.RetryOptions, 'token'> = {}) {
+    super();
+  }
+
+  public execute<T>(task: PolicyTask<T>, token: ICancellationToken = CancellationToken.None): Promise<T> {
+    return Async.retry((_, token) => task(token), {
+      ...this._options,
+      token,
+      onRetry: (error, attempt, delay) => {
+        this._options.onRetry?.(error, attempt, delay);
+        this._events.emit('retry', error, attempt, delay);
+      },
+    });
+  }
+}
+
+class PolicyWrap extends Policy {
+  readonly #policies: readonly Policy[];
+  readonly #forwarders: IDisposable[] = [];
+
+  public constructor(_policies: readonly Policy[]) {
+    super();
+    this.#policies = _policies;
+
+    const events: (keyof PolicyEvents)[] = ['stateChange', 'rejected', 'retry', 'timeout'];
+
+    for(const policy of _policies) {
+      for(const event of events) {
+        this.#forwarders.push(policy.addListener(event, ((...args: any[]) => {
+          this._events.emit(event, ...args as any);
+        }) as ListenerCallback<any>));
+      }
+    }
+  }
+
+  public execute<T>(task: PolicyTask<T>, token: ICancellationToken = CancellationToken.None): Promise<T> {
+    const run = this.#policies.reduceRight<PolicyTask<T>>((next, policy) => token => policy.execute(next, token), task);
+    return Promise.resolve(run(token));
+  }
+
+  /**
+   * Stops reporting the events of the wrapped policies, which are left untouched.
+   */
+  public override dispose(): void {
+    for(const forwarder of this.#forwarders.splice(0)) {
+      forwarder.dispose();
+    }
+
+    super.dispose();
+  }
+}
+
+export default Policy;
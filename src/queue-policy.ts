@@ -0,0 +1,89 @@
+/* eslint-disable @typescript-eslint/no-namespace */
+
+import { assert } from '@rapid-d-kit/safe';
+
+
+/**
+ * What a queue policy knows about a waiting acquisition.
+ */
+export type QueuedAcquisition = {
+  readonly weight: number;
+  readonly priority: number;
+  readonly requestedAt: number;
+};
+
+/**
+ * Decides in which order the waiting acquisitions of a semaphore are served.
+ */
+export interface IQueuePolicy {
+  /**
+   * Returns a negative number if `a` should be served before `b`, a positive one if after,
+   * or zero to keep their arrival order.
+   */
+  compare(a: QueuedAcquisition, b: QueuedAcquisition, now: number): number;
+
+  /**
+   * Whether acquisitions further in line may be served while the first one does not fit in the available value.
+   * Lighter acquisitions then go first, at the risk of delaying the heavy one for as long as they keep coming.
+   */
+  readonly skipAhead?: boolean;
+
+  /**
+   * How often, in milliseconds, the order of the waiting acquisitions may change as time passes.
+   * The queue is then sorted again at most that often, rather than only when acquisitions are inserted.
+   */
+  readonly reorderInterval?: number;
+}
+
+
+export namespace QueuePolicy {
+  /**
+   * Higher priorities first, then arrival order. The default policy.
+   */
+  export const strict: IQueuePolicy = Object.freeze<IQueuePolicy>({
+    compare: (a, b) => _compareDescending(a.priority, b.priority),
+  });
+
+  /**
+   * Arrival order, whatever the priorities.
+   */
+  export const fifo: IQueuePolicy = Object.freeze<IQueuePolicy>({
+    compare: () => 0,
+  });
+
+  /**
+   * Higher effective priorities first, the effective priority of an acquisition growing by `step`
+   * every `interval` milliseconds it waits, so low priorities are not starved by a steady stream of high ones.
+   */
+  export function aging({ interval, step = 1 }: { interval: number; step?: number }): IQueuePolicy {
+    assert(typeof interval === 'number' && interval > 0);
+    assert(typeof step === 'number' && step > 0);
+
+    const effective = (acquisition: QueuedAcquisition, now: number) =>
+      acquisition.priority + Math.floor((now - acquisition.requestedAt) / interval) * step;
+
+    return Object.freeze<IQueuePolicy>({
+      compare: (a, b, now) => _compareDescending(effective(a, now), effective(b, now)),
+      reorderInterval: interval,
+    });
+  }
+
+  /**
+   * The order of `base` (strict by default), letting lighter acquisitions through while the first one does not fit.
+   */
+  export function skipAhead(base: IQueuePolicy = strict): IQueuePolicy {
+    return Object.freeze<IQueuePolicy>({
+      compare: (a, b, now) => base.compare(a, b, now),
+      skipAhead: true,
+      reorderInterval: base.reorderInterval,
+    });
+  }
+}
+
+
+// Infinite priorities are valid, so they are compared rather than subtracted
+function _compareDescending(a: number, b: number): number {
+  return a === b ? 0 : a > b ? -1 : 1;
+}
+
+export default QueuePolicy;
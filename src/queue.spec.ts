@@ -0,0 +1,54 @@
+import AsyncQueue from './queue';
+import { VirtualClock } from './testing';
+import { ErrorCode } from './@internals/errors';
+
+
+describe('AsyncQueue', () => {
+  test('should time tasks out on its own clock', async () => {
+    const clock = new VirtualClock();
+    const queue = new AsyncQueue({ clock });
+
+    let cancelled = false;
+
+    const pending = queue.add(token => new Promise<void>(resolve => {
+      token.onCancellationRequested(() => {
+        cancelled = true;
+        resolve();
+      });
+    }), { timeout: 50 }).catch(err => err);
+
+    await clock.advanceBy(50);
+
+    expect(cancelled).toBe(true);
+    expect((await pending).code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+  });
+
+  test('should refuse a task heavier than the concurrency', () => {
+    const queue = new AsyncQueue({ concurrency: 2 });
+
+    expect(() => queue.add(() => 1, { weight: 3 })).toThrow();
+    expect(queue.size).toBe(0);
+  });
+
+  test('should report a timed out task once', async () => {
+    const clock = new VirtualClock();
+    const queue = new AsyncQueue({ clock });
+
+    const completed = jest.fn();
+    const errors = jest.fn();
+
+    queue.addListener('completed', completed);
+    queue.addListener('error', errors);
+
+    const pending = queue.add(() => new Promise<string>(resolve => clock.setTimeout(() => resolve('late'), 100)), { timeout: 50 }).catch(err => err);
+
+    await clock.advanceBy(50);
+    expect((await pending).code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+
+    await clock.advanceBy(50);
+    await queue.onIdle();
+
+    expect(errors).toHaveBeenCalledTimes(1);
+    expect(completed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,263 @@
+import { assert } from '@rapid-d-kit/safe';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+import type { LooseAutocomplete } from '@rapid-d-kit/types';
+
+import promises from './promises';
+import Semaphore from './semaphore';
+import { DefaultClock, IClock } from './clock';
+import { Exception } from './@internals/errors';
+import { ListenerCallback, WeakEventEmitter } from './event-emitter';
+import { CancellationTokenSource, ICancellationToken } from './cancellation';
+
+
+export type QueueTask<T> = (token: ICancellationToken) => T | Promise<T>;
+
+export type QueueTaskOptions = {
+  priority?: number;
+  weight?: number;
+  token?: ICancellationToken;
+
+  /**
+   * The maximum time in milliseconds the task may run once started. When it elapses the
+   * task's token is cancelled and its promise is rejected with an `ERR_TIMEOUT` exception,
+   * reported by the `error` event. How the task ends afterwards is not reported.
+   */
+  timeout?: number;
+};
+
+export type AsyncQueueOptions = {
+  concurrency?: number;
+  autoStart?: boolean;
+
+  /**
+   * The clock of the task timeouts and of the underlying semaphore. Defaults to `DefaultClock`.
+   */
+  clock?: IClock;
+};
+
+export type AsyncQueueEvents = {
+  add: [];
+  active: [];
+  completed: [result: unknown];
+  error: [error: unknown];
+  empty: [];
+  idle: [];
+};
+
+type Watcher = {
+  predicate(): boolean;
+  resolve(): void;
+};
+
+export class AsyncQueue {
+  #size: number = 0;
+  #pending: number = 0;
+  #paused: boolean = false;
+  #concurrency: number;
+  #semaphore: Semaphore;
+  readonly #clock: IClock;
+  #watchers: Watcher[] = [];
+  readonly #events: WeakEventEmitter<AsyncQueueEvents> = new WeakEventEmitter();
+
+  public constructor({ concurrency = 1, autoStart = true, clock = DefaultClock }: AsyncQueueOptions = {}) {
+    _assertConcurrency(concurrency);
+
+    this.#clock = clock;
+    this.#concurrency = concurrency;
+    this.#semaphore = new Semaphore(concurrency, { clock });
+
+    if(!autoStart) {
+      this.pause();
+    }
+  }
+
+  /**
+   * The number of tasks waiting for a slot to run.
+   */
+  public get size(): number {
+    return this.#size;
+  }
+
+  /**
+   * The number of tasks currently running.
+   */
+  public get pending(): number {
+    return this.#pending;
+  }
+
+  public get isPaused(): boolean {
+    return this.#paused;
+  }
+
+  public get concurrency(): number {
+    return this.#concurrency;
+  }
+
+  public set concurrency(value: number) {
+    _assertConcurrency(value);
+
+    const delta = value - this.#concurrency;
+    this.#concurrency = value;
+
+    this.#semaphore.setValue(this.#semaphore.getValue() + delta);
+  }
+
+  public add<T>(task: QueueTask<T>, { priority = 0, weight = 1, token, timeout }: QueueTaskOptions = {}): Promise<T> {
+    // A heavier task would never fit in the queue
+    assert(typeof weight === 'number' && Number.isInteger(weight) && weight > 0 && weight <= this.#concurrency);
+
+    this.#size++;
+    this.#events.emit('add');
+
+    return promises.withAsyncBody<T, unknown>(async (resolve, reject) => {
+      let release: () => void;
+
+      try {
+        [, release] = await this.#semaphore.acquire(weight, priority, { token });
+      } finally {
+        this.#size--;
+
+        if(this.#size === 0) {
+          this.#events.emit('empty');
+        }
+
+        this.#checkWatchers();
+      }
+
+      this.#pending++;
+      this.#events.emit('active');
+
+      const source = new CancellationTokenSource(token);
+      let timer: IDisposable | null = null;
+      let timedOut = false;
+
+      if(typeof timeout === 'number') {
+        timer = this.#clock.setTimeout(() => {
+          const error = new Exception(`The queued task did not complete within ${timeout}ms`, 'ERR_TIMEOUT');
+
+          timedOut = true;
+          source.cancel(error);
+
+          reject(error);
+          this.#events.emit('error', error);
+        }, timeout);
+      }
+
+      try {
+        const result = await task(source.token);
+        resolve(result);
+
+        if(!timedOut) {
+          this.#events.emit('completed', result);
+        }
+      } catch (err: any) {
+        reject(err);
+
+        if(!timedOut) {
+          this.#events.emit('error', err);
+        }
+      } finally {
+        timer?.dispose();
+
+        source.dispose();
+        release();
+
+        this.#pending--;
+
+        if(this.#pending === 0 && this.#size === 0) {
+          this.#events.emit('idle');
+        }
+
+        this.#checkWatchers();
+      }
+    });
+  }
+
+  public addAll<T>(tasks: readonly QueueTask<T>[], options?: QueueTaskOptions): Promise<T[]> {
+    return Promise.all(tasks.map(task => this.add(task, options)));
+  }
+
+  /**
+   * Stops starting new tasks. Tasks that are already running are not affected.
+   */
+  public pause(): void {
+    if(this.#paused) return;
+    this.#paused = true;
+
+    // Taking the whole capacity away keeps the semaphore locked whatever the running tasks release
+    this.#semaphore.setValue(this.#semaphore.getValue() - this.#concurrency);
+  }
+
+  public start(): void {
+    if(!this.#paused) return;
+    this.#paused = false;
+
+    this.#semaphore.setValue(this.#semaphore.getValue() + this.#concurrency);
+  }
+
+  /**
+   * Removes every task waiting in the queue, rejecting their promises.
+   */
+  public clear(): void {
+    this.#semaphore.cancelPending(new Exception('The queued task was cleared before it could run', 'ERR_TOKEN_CANCELLED'));
+  }
+
+  /**
+   * Resolves once no task is waiting in the queue anymore.
+   */
+  public onEmpty(): Promise<void> {
+    return this.#when(() => this.#size === 0);
+  }
+
+  /**
+   * Resolves once no task is waiting in the queue nor running.
+   */
+  public onIdle(): Promise<void> {
+    return this.#when(() => this.#size === 0 && this.#pending === 0);
+  }
+
+  /**
+   * Resolves once fewer than `limit` tasks are waiting in the queue.
+   */
+  public onSizeLessThan(limit: number): Promise<void> {
+    return this.#when(() => this.#size < limit);
+  }
+
+  public addListener<K extends keyof AsyncQueueEvents>(event: LooseAutocomplete<K>, listener: ListenerCallback<AsyncQueueEvents[K]>): IDisposable {
+    return this.#events.addListener(event, listener);
+  }
+
+  public removeListener<K extends keyof AsyncQueueEvents>(event: LooseAutocomplete<K>, listener: ListenerCallback<AsyncQueueEvents[K]>): boolean {
+    return this.#events.removeListener(event, listener);
+  }
+
+  #when(predicate: () => boolean): Promise<void> {
+    if(predicate())
+      return Promise.resolve();
+
+    return new Promise(resolve => {
+      this.#watchers.push({ predicate, resolve });
+    });
+  }
+
+  #checkWatchers(): void {
+    if(this.#watchers.length === 0) return;
+
+    const watchers = this.#watchers;
+    this.#watchers = [];
+
+    for(const watcher of watchers) {
+      if(watcher.predicate()) {
+        watcher.resolve();
+      } else {
+        this.#watchers.push(watcher);
+      }
+    }
+  }
+}
+
+function _assertConcurrency(value: number): void {
+  assert(typeof value === 'number' && Number.isInteger(value) && value > 0);
+}
+
+export default AsyncQueue;
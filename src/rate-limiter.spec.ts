@@ -0,0 +1,110 @@
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import RateLimiter from './rate-limiter';
+import { VirtualClock } from './testing';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource } from './cancellation';
+
+
+describe('RateLimiter', () => {
+  let clock: VirtualClock;
+  let installation: IDisposable;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    installation = clock.install();
+  });
+
+  afterEach(() => {
+    installation.dispose();
+  });
+
+  test('should spend a full bucket at once, then refill it over the interval', async () => {
+    const limiter = new RateLimiter({ limit: 2, interval: 100 });
+
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+
+    let acquired = false;
+    const waiting = limiter.acquire().then(() => void (acquired = true));
+
+    await clock.advanceBy(49);
+    expect(acquired).toBe(false);
+
+    await clock.advanceBy(1);
+    await waiting;
+
+    expect(acquired).toBe(true);
+  });
+
+  test('should never spend more than the limit within any sliding window', async () => {
+    const limiter = new RateLimiter({ limit: 2, interval: 100, strategy: 'sliding-window' });
+    const times: number[] = [];
+
+    const calls = Array.from({ length: 5 }, () => limiter.acquire().then(() => void times.push(clock.now())));
+    await clock.runAllPending();
+    await Promise.all(calls);
+
+    expect(times).toEqual([0, 0, 100, 100, 200]);
+  });
+
+  test('should serve the waiters by priority', async () => {
+    const limiter = new RateLimiter({ limit: 1, interval: 100 });
+    const order: string[] = [];
+
+    await limiter.acquire();
+
+    const low = limiter.acquire(1, { priority: 0 }).then(() => void order.push('low'));
+    const high = limiter.acquire(1, { priority: 1 }).then(() => void order.push('high'));
+
+    await clock.runAllPending();
+    await Promise.all([low, high]);
+
+    expect(order).toEqual(['high', 'low']);
+  });
+
+  test('should reject the waiters whose token is cancelled and let the others through', async () => {
+    const limiter = new RateLimiter({ limit: 1, interval: 100 });
+    const source = new CancellationTokenSource();
+
+    await limiter.acquire();
+
+    const cancelled = limiter.acquire(1, { token: source.token }).catch(err => err);
+    const waiting = limiter.acquire();
+
+    source.cancel();
+
+    expect((await cancelled).code).toBe(ErrorCode.for('ERR_TOKEN_CANCELLED').getCode());
+    expect(limiter.size).toBe(1);
+
+    await clock.advanceBy(100);
+    await waiting;
+
+    expect(limiter.size).toBe(0);
+  });
+
+  test('should not call a wrapped function once its token is cancelled', async () => {
+    const limiter = new RateLimiter({ limit: 1, interval: 100 });
+    const source = new CancellationTokenSource();
+    const fn = jest.fn((n: number) => n * 2);
+
+    const wrapped = limiter.wrap(fn, { token: source.token });
+
+    await expect(wrapped(1)).resolves.toBe(2);
+
+    const waiting = wrapped(2).catch(err => err);
+    source.cancel();
+
+    expect((await waiting).code).toBe(ErrorCode.for('ERR_TOKEN_CANCELLED').getCode());
+    await expect(wrapped(3)).rejects.toThrow();
+
+    await clock.runAllPending();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('should refuse a cost above the limit', () => {
+    const limiter = new RateLimiter({ limit: 2, interval: 100 });
+    expect(() => limiter.tryAcquire(3)).toThrow();
+  });
+});
@@ -0,0 +1,260 @@
+import { assert } from '@rapid-d-kit/safe';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import { DefaultClock, IClock } from './clock';
+import { Exception } from './@internals/errors';
+import type { ICancellationToken } from './cancellation';
+
+
+export type RateLimitStrategy = 'token-bucket' | 'sliding-window';
+
+export type RateLimiterOptions = {
+  /**
+   * The maximum cost allowed within `interval` milliseconds.
+   */
+  limit: number;
+  interval: number;
+
+  /**
+   * - `token-bucket`: up to `limit` can be spent at once, then the bucket refills continuously over `interval`.
+   * - `sliding-window`: the total cost spent during any `interval` milliseconds never exceeds `limit`.
+   */
+  strategy?: RateLimitStrategy;
+  clock?: IClock;
+};
+
+export interface IRateLimiter {
+  acquire(cost?: number, options?: { token?: ICancellationToken; priority?: number }): Promise<void>;
+  tryAcquire(cost?: number): boolean;
+  wrap<TArgs extends unknown[], R>(fn: (...args: TArgs) => R | Promise<R>, options?: { cost?: number; priority?: number; token?: ICancellationToken }): (...args: TArgs) => Promise<R>;
+  cancelPending(reason?: any): void;
+}
+
+
+interface IStrategy {
+  canConsume(now: number, cost: number): boolean;
+  consume(now: number, cost: number): void;
+  waitTime(now: number, cost: number): number;
+}
+
+class TokenBucket implements IStrategy {
+  #tokens: number;
+  #lastRefill: number;
+
+  public constructor(
+    private readonly _limit: number,
+    private readonly _interval: number,
+    now: number // eslint-disable-line comma-dangle
+  ) {
+    this.#tokens = _limit;
+    this.#lastRefill = now;
+  }
+
+  public canConsume(now: number, cost: number): boolean {
+    this.#refill(now);
+    return this.#tokens >= cost;
+  }
+
+  public consume(now: number, cost: number): void {
+    this.#refill(now);
+    this.#tokens -= cost;
+  }
+
+  public waitTime(now: number, cost: number): number {
+    this.#refill(now);
+    return Math.ceil((cost - this.#tokens) * this._interval / this._limit);
+  }
+
+  #refill(now: number): void {
+    const elapsed = Math.max(0, now - this.#lastRefill);
+
+    this.#tokens = Math.min(this._limit, this.#tokens + elapsed * this._limit / this._interval);
+    this.#lastRefill = now;
+  }
+}
+
+class SlidingWindow implements IStrategy {
+  #used: number = 0;
+  #entries: { at: number; cost: number }[] = [];
+
+  public constructor(
+    private readonly _limit: number,
+    private readonly _interval: number // eslint-disable-line comma-dangle
+  ) { }
+
+  public canConsume(now: number, cost: number): boolean {
+    this.#prune(now);
+    return this.#used + cost <= this._limit;
+  }
+
+  public consume(now: number, cost: number): void {
+    this.#prune(now);
+
+    this.#used += cost;
+    this.#entries.push({ at: now, cost });
+  }
+
+  public waitTime(now: number, cost: number): number {
+    this.#prune(now);
+
+    let needed = this.#used + cost - this._limit;
+
+    for(const entry of this.#entries) {
+      needed -= entry.cost;
+      if(needed <= 0) return entry.at + this._interval - now;
+    }
+
+    return this._interval;
+  }
+
+  #prune(now: number): void {
+    while(this.#entries.length > 0 && this.#entries[0].at <= now - this._interval) {
+      this.#used -= this.#entries.shift()!.cost;
+    }
+  }
+}
+
+
+type Waiter = {
+  resolve(): void;
+  reject(reason?: unknown): void;
+  cost: number;
+  priority: number;
+};
+
+export class RateLimiter implements IRateLimiter {
+  #limit: number;
+  #clock: IClock;
+  #strategy: IStrategy;
+  #queue: Waiter[] = [];
+  #timer: IDisposable | null = null;
+
+  public constructor({ limit, interval, strategy = 'token-bucket', clock = DefaultClock }: RateLimiterOptions) {
+    assert(typeof limit === 'number' && limit > 0);
+    assert(typeof interval === 'number' && interval > 0);
+
+    this.#limit = limit;
+    this.#clock = clock;
+
+    this.#strategy = strategy === 'sliding-window' ?
+      new SlidingWindow(limit, interval) :
+      new TokenBucket(limit, interval, clock.now());
+  }
+
+  /**
+   * The number of callers waiting for the rate limit to let them through.
+   */
+  public get size(): number {
+    return this.#queue.length;
+  }
+
+  public acquire(cost: number = 1, { token, priority = 0 }: { token?: ICancellationToken; priority?: number } = {}): Promise<void> {
+    this.#assertCost(cost);
+
+    if(token?.isCancellationRequested)
+      return Promise.reject(new Exception('Async execution of rate limiter method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+
+    if(this.tryAcquire(cost))
+      return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, cost, priority };
+
+      let index = this.#queue.length;
+
+      while(index > 0 && this.#queue[index - 1].priority < priority) {
+        index--;
+      }
+
+      this.#queue.splice(index, 0, waiter);
+
+      if(token) {
+        const listener = token.onCancellationRequested(() => {
+          const i = this.#queue.indexOf(waiter);
+          if(i < 0) return;
+
+          this.#queue.splice(i, 1);
+          reject(new Exception('Async execution of rate limiter method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+
+          this.#drain();
+        });
+
+        waiter.resolve = () => {
+          listener.dispose();
+          resolve();
+        };
+
+        waiter.reject = reason => {
+          listener.dispose();
+          reject(reason);
+        };
+      }
+
+      this.#drain();
+    });
+  }
+
+  /**
+   * Spends `cost` right away if the rate limit allows it and nobody is waiting ahead.
+   *
+   * @returns {boolean} `true` if the cost was spent, otherwise `false`.
+   */
+  public tryAcquire(cost: number = 1): boolean {
+    this.#assertCost(cost);
+
+    const now = this.#clock.now();
+    if(this.#queue.length > 0 || !this.#strategy.canConsume(now, cost)) return false;
+
+    this.#strategy.consume(now, cost);
+    return true;
+  }
+
+  /**
+   * Returns a throttled version of `fn`, whose every call waits for the rate limit first.
+   * Once `token` is cancelled, the calls still waiting and the later ones are rejected without calling `fn`.
+   */
+  public wrap<TArgs extends unknown[], R>(fn: (...args: TArgs) => R | Promise<R>, { cost = 1, priority = 0, token }: { cost?: number; priority?: number; token?: ICancellationToken } = {}): (...args: TArgs) => Promise<R> {
+    return async (...args: TArgs) => {
+      await this.acquire(cost, { priority, token });
+      return fn(...args);
+    };
+  }
+
+  public cancelPending(reason?: any): void {
+    const queue = this.#queue;
+    this.#queue = [];
+
+    this.#timer?.dispose();
+    this.#timer = null;
+
+    for(let i = 0; i < queue.length; i++) {
+      queue[i].reject(reason);
+    }
+  }
+
+  #drain(): void {
+    this.#timer?.dispose();
+    this.#timer = null;
+
+    while(this.#queue.length > 0) {
+      const now = this.#clock.now();
+      const head = this.#queue[0];
+
+      if(!this.#strategy.canConsume(now, head.cost)) {
+        const wait = Math.max(1, this.#strategy.waitTime(now, head.cost));
+        this.#timer = this.#clock.setTimeout(() => this.#drain(), wait);
+
+        return;
+      }
+
+      this.#strategy.consume(now, head.cost);
+      this.#queue.shift()!.resolve();
+    }
+  }
+
+  #assertCost(cost: number): void {
+    assert(typeof cost === 'number' && cost > 0 && cost <= this.#limit, `The cost must be a positive number not greater than the limit of ${this.#limit}`);
+  }
+}
+
+export default RateLimiter;
@@ -0,0 +1,78 @@
+import { WaiterQueue } from './@internals/waiters';
+import type { ICancellationToken } from './cancellation';
+
+
+export interface IResetEvent {
+  readonly isSet: boolean;
+  set(): void;
+  reset(): void;
+  wait(token?: ICancellationToken): Promise<void>;
+}
+
+
+/**
+ * An event that, once set, lets every waiter through until it is reset.
+ */
+export class ManualResetEvent implements IResetEvent {
+  #isSet: boolean;
+  #waiters: WaiterQueue = new WaiterQueue();
+
+  public constructor(initialState: boolean = false) {
+    this.#isSet = initialState;
+  }
+
+  public get isSet(): boolean {
+    return this.#isSet;
+  }
+
+  public set(): void {
+    this.#isSet = true;
+    this.#waiters.resolveAll();
+  }
+
+  public reset(): void {
+    this.#isSet = false;
+  }
+
+  public wait(token?: ICancellationToken): Promise<void> {
+    if(this.#isSet)
+      return Promise.resolve();
+
+    return this.#waiters.wait(token);
+  }
+}
+
+
+/**
+ * An event that lets a single waiter through each time it is set, resetting itself right after.
+ */
+export class AutoResetEvent implements IResetEvent {
+  #isSet: boolean;
+  #waiters: WaiterQueue = new WaiterQueue();
+
+  public constructor(initialState: boolean = false) {
+    this.#isSet = initialState;
+  }
+
+  public get isSet(): boolean {
+    return this.#isSet;
+  }
+
+  public set(): void {
+    // The signal stays set only while nobody is there to consume it
+    this.#isSet = !this.#waiters.resolveOne();
+  }
+
+  public reset(): void {
+    this.#isSet = false;
+  }
+
+  public wait(token?: ICancellationToken): Promise<void> {
+    if(this.#isSet) {
+      this.#isSet = false;
+      return Promise.resolve();
+    }
+
+    return this.#waiters.wait(token);
+  }
+}
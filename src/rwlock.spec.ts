@@ -0,0 +1,167 @@
+import RWLock from './rwlock';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource, isCancellationError } from './cancellation';
+
+
+describe('RWLock', () => {
+  async function readers(lock: RWLock, count: number): Promise<void> {
+    const handles = await Promise.all(Array.from({ length: count }, () => lock.acquireRead(0, { timeout: 0 })));
+    handles.forEach(handle => handle.release());
+  }
+
+  test('should give every permit back once an upgraded handle is released', async () => {
+    const lock = new RWLock({ maxReaders: 4 });
+
+    const handle = await lock.acquireRead();
+    await handle.upgrade();
+
+    expect(handle.mode).toBe('write');
+    expect(lock.isWriteLocked()).toBe(true);
+
+    handle.release();
+
+    expect(lock.isReadLocked()).toBe(false);
+    expect(lock.isWriteLocked()).toBe(false);
+
+    await readers(lock, 4);
+    (await lock.acquireWrite(0, { timeout: 0 })).release();
+  });
+
+  test('should let queued readers in on downgrade and release the rest afterwards', async () => {
+    const lock = new RWLock({ maxReaders: 4 });
+
+    const writer = await lock.acquireWrite();
+    const reader = lock.acquireRead();
+
+    writer.downgrade();
+    expect(writer.mode).toBe('read');
+
+    const other = await reader;
+    expect(lock.isReadLocked()).toBe(true);
+
+    writer.release();
+    other.release();
+
+    expect(lock.isReadLocked()).toBe(false);
+    await readers(lock, 4);
+  });
+
+  test('should keep other writers out across an upgrade and downgrade', async () => {
+    const lock = new RWLock({ maxReaders: 4 });
+
+    const handle = await lock.acquireRead();
+    await handle.upgrade();
+
+    let written = false;
+    const writer = lock.acquireWrite().then(other => {
+      written = true;
+      return other;
+    });
+
+    handle.downgrade();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(written).toBe(false);
+
+    handle.release();
+    (await writer).release();
+
+    expect(written).toBe(true);
+    await readers(lock, 4);
+  });
+
+  test('should upgrade and downgrade with a single reader allowed', async () => {
+    const lock = new RWLock({ maxReaders: 1 });
+    const handle = await lock.acquireRead();
+
+    await handle.upgrade();
+    expect(handle.mode).toBe('write');
+
+    handle.downgrade();
+    expect(handle.mode).toBe('read');
+
+    handle.release();
+    (await lock.acquireWrite(0, { timeout: 0 })).release();
+  });
+
+  test('should queue new readers behind a waiting writer', async () => {
+    const lock = new RWLock({ maxReaders: 4 });
+    const order: string[] = [];
+
+    const first = await lock.acquireRead();
+
+    const writer = lock.acquireWrite().then(handle => {
+      order.push('writer');
+      handle.release();
+    });
+
+    const reader = lock.acquireRead().then(handle => {
+      order.push('reader');
+      handle.release();
+    });
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(order).toEqual([]);
+
+    first.release();
+    await Promise.all([writer, reader]);
+
+    expect(order).toEqual(['writer', 'reader']);
+  });
+
+  test('should let new readers join the current ones when preferring readers', async () => {
+    const lock = new RWLock({ maxReaders: 4, policy: 'reader-preferring' });
+    const first = await lock.acquireRead();
+
+    const writer = lock.acquireWrite();
+    const reader = await lock.acquireRead(0, { timeout: 0 });
+
+    reader.release();
+    first.release();
+
+    (await writer).release();
+  });
+
+  test('should let the readers in once a waiting writer is cancelled', async () => {
+    const lock = new RWLock({ maxReaders: 4 });
+    const source = new CancellationTokenSource();
+
+    const first = await lock.acquireRead();
+
+    const writer = lock.acquireWrite(0, { token: source.token }).catch(err => err);
+    const reader = lock.acquireRead();
+
+    source.cancel();
+
+    expect(isCancellationError(await writer)).toBe(true);
+    (await reader).release();
+
+    first.release();
+    expect(lock.isReadLocked()).toBe(false);
+  });
+
+  test('should time a writer out while readers hold the lock', async () => {
+    const lock = new RWLock({ maxReaders: 4 });
+    const reader = await lock.acquireRead();
+
+    const error = await lock.acquireWrite(0, { timeout: 10 }).catch(err => err);
+    expect(error.code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+
+    reader.release();
+    (await lock.acquireWrite(0, { timeout: 0 })).release();
+  });
+
+  test('should reject runRead when its token is cancelled', async () => {
+    const lock = new RWLock();
+    const source = new CancellationTokenSource();
+
+    const writer = await lock.acquireWrite();
+    const pending = lock.runRead(() => 1, { token: source.token });
+
+    source.cancel();
+    await expect(pending).rejects.toThrow();
+
+    writer.release();
+    expect(lock.isWriteLocked()).toBe(false);
+  });
+});
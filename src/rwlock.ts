@@ -0,0 +1,253 @@
+import './@internals/polyfills';
+
+import { assert } from '@rapid-d-kit/safe';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import promises from './promises';
+import Semaphore, { AcquireOptions } from './semaphore';
+import { Exception } from './@internals/errors';
+import type { LockGuard } from './lock-guard';
+import { CancellationToken, ICancellationToken } from './cancellation';
+
+
+/**
+ * Defines which side of the lock wins when readers and writers are queued with the same priority.
+ *
+ * - `writer-preferring`: once a writer is waiting, new readers queue behind it, so writers cannot starve.
+ * - `reader-preferring`: new readers join the current readers as long as no writer holds the lock.
+ */
+export type RWLockPolicy = 'writer-preferring' | 'reader-preferring';
+
+export type RWLockOptions = {
+  policy?: RWLockPolicy;
+  maxReaders?: number;
+};
+
+/**
+ * A held read or write lock. Disposing of the handle releases it, so it can be declared with `using`.
+ */
+export interface IRWLockHandle extends IDisposable, Disposable, AsyncDisposable {
+  readonly mode: 'read' | 'write';
+  readonly released: boolean;
+
+  /**
+   * Atomically turns a read lock into a write lock, without letting any other writer in between.
+   * Resolves once every other reader has left the lock.
+   */
+  upgrade(): Promise<void>;
+
+  /**
+   * Atomically turns a write lock into a read lock, letting the queued readers proceed.
+   */
+  downgrade(): void;
+  release(): void;
+}
+
+export interface IRWLock {
+  acquireRead(priority?: number, options?: AcquireOptions): Promise<IRWLockHandle>;
+  acquireWrite(priority?: number, options?: AcquireOptions): Promise<IRWLockHandle>;
+  runRead<T>(callback: () => T | Promise<T>, _?: { priority?: number; token?: ICancellationToken }): Promise<T>;
+  runWrite<T>(callback: () => T | Promise<T>, _?: { priority?: number; token?: ICancellationToken }): Promise<T>;
+  isReadLocked(): boolean;
+  isWriteLocked(): boolean;
+  cancelPending(reason?: any): void;
+}
+
+
+type SharedState = {
+  upgrading: boolean;
+};
+
+class RWLockHandle implements IRWLockHandle {
+  #mode: 'read' | 'write';
+  #guards: LockGuard[];
+  #released: boolean = false;
+
+  public constructor(
+    private readonly _state: SharedState,
+    private readonly _semaphore: Semaphore,
+    private readonly _capacity: number,
+    _mode: 'read' | 'write',
+    _guard: LockGuard // eslint-disable-line comma-dangle
+  ) {
+    this.#mode = _mode;
+    this.#guards = [_guard];
+  }
+
+  public get mode(): 'read' | 'write' {
+    return this.#mode;
+  }
+
+  public get released(): boolean {
+    return this.#released;
+  }
+
+  public async upgrade(): Promise<void> {
+    this.#ensureNotReleased();
+    if(this.mode === 'write') return;
+
+    // A single reader already holds the only permit
+    if(this._capacity === 1) {
+      this.#mode = 'write';
+      return;
+    }
+
+    if(this._state.upgrading) {
+      throw new Exception('Another reader is already upgrading this lock, upgrading both would deadlock', 'ERR_RESOURCE_LOCKED');
+    }
+
+    this._state.upgrading = true;
+
+    try {
+      const [, guard] = await this._semaphore.acquire(this._capacity - 1, Infinity);
+
+      this.#guards.push(guard);
+      this.#mode = 'write';
+    } finally {
+      this._state.upgrading = false;
+    }
+  }
+
+  public downgrade(): void {
+    this.#ensureNotReleased();
+    if(this.mode === 'read') return;
+
+    this.#mode = 'read';
+
+    if(this.#guards.length > 1) {
+      // Gives back what the upgrade took
+      this.#guards.pop()!();
+    } else if(this._capacity > 1) {
+      // The write holder is the only holder of the semaphore, so it is the one left holding a single permit
+      this._semaphore.release(this._capacity - 1);
+    }
+  }
+
+  public release(): void {
+    if(this.#released) return;
+    this.#released = true;
+
+    for(const guard of this.#guards) {
+      guard();
+    }
+  }
+
+  public dispose(): void {
+    this.release();
+  }
+
+  public [Symbol.dispose](): void {
+    this.release();
+  }
+
+  public [Symbol.asyncDispose](): Promise<void> {
+    this.release();
+    return Promise.resolve();
+  }
+
+  #ensureNotReleased(): void {
+    if(this.#released) {
+      throw new Exception('This lock handle was already released', 'ERR_RESOURCE_DISPOSED');
+    }
+  }
+}
+
+
+/**
+ * A read/write lock built on top of a weighted `Semaphore`: readers take a single permit
+ * while writers take every permit, so any number of readers or exactly one writer can hold it.
+ */
+export class RWLock implements IRWLock {
+  #capacity: number;
+  #policy: RWLockPolicy;
+  #semaphore: Semaphore;
+  #state: SharedState = { upgrading: false };
+
+  public constructor({ policy = 'writer-preferring', maxReaders = 1024 }: RWLockOptions = {}) {
+    assert(typeof maxReaders === 'number' && Number.isInteger(maxReaders) && maxReaders > 0);
+
+    this.#policy = policy;
+    this.#capacity = maxReaders;
+    this.#semaphore = new Semaphore(maxReaders);
+  }
+
+  public get policy(): RWLockPolicy {
+    return this.#policy;
+  }
+
+  public async acquireRead(priority: number = 0, options?: AcquireOptions): Promise<IRWLockHandle> {
+    const [, guard] = await this.#semaphore.acquire(1, this.#priorityOf('read', priority), options);
+    return new RWLockHandle(this.#state, this.#semaphore, this.#capacity, 'read', guard);
+  }
+
+  public async acquireWrite(priority: number = 0, options?: AcquireOptions): Promise<IRWLockHandle> {
+    const [, guard] = await this.#semaphore.acquire(this.#capacity, this.#priorityOf('write', priority), options);
+    return new RWLockHandle(this.#state, this.#semaphore, this.#capacity, 'write', guard);
+  }
+
+  public runRead<T>(callback: () => T | Promise<T>, { priority = 0, token = CancellationToken.None }: { priority?: number; token?: ICancellationToken } = {}): Promise<T> {
+    return this.#run(() => this.acquireRead(priority, { token }), callback, token);
+  }
+
+  public runWrite<T>(callback: () => T | Promise<T>, { priority = 0, token = CancellationToken.None }: { priority?: number; token?: ICancellationToken } = {}): Promise<T> {
+    return this.#run(() => this.acquireWrite(priority, { token }), callback, token);
+  }
+
+  public isReadLocked(): boolean {
+    const value = this.#semaphore.getValue();
+    return value > 0 && value < this.#capacity;
+  }
+
+  public isWriteLocked(): boolean {
+    return this.#semaphore.isLocked();
+  }
+
+  public cancelPending(reason?: any): void {
+    this.#semaphore.cancelPending(reason);
+  }
+
+  #run<T>(acquire: () => Promise<IRWLockHandle>, callback: () => T | Promise<T>, token: ICancellationToken): Promise<T> {
+    return promises.withAsyncBody(async (resolve, reject) => {
+      if(token.isCancellationRequested) {
+        reject(new Exception('Async execution of read/write lock method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+        return;
+      }
+
+      const listener = token.onCancellationRequested(() => {
+        reject(new Exception('Async execution of read/write lock method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+      });
+
+      try {
+        const handle = await acquire();
+
+        try {
+          const result = await callback();
+
+          if(token.isCancellationRequested) {
+            reject(new Exception('Async execution of read/write lock method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+            return;
+          }
+
+          resolve(result);
+        } catch (err: any) {
+          reject(err);
+        } finally {
+          handle.release();
+        }
+      } finally {
+        listener.dispose();
+      }
+    });
+  }
+
+  #priorityOf(mode: 'read' | 'write', priority: number): number {
+    assert(typeof priority === 'number' && Number.isInteger(priority));
+
+    // Priorities are spread over even numbers so the preferred side of the lock
+    // sits on the odd slot right above the other side of the same user priority.
+    const preferred = this.#policy === 'writer-preferring' ? 'write' : 'read';
+    return priority * 2 + (mode === preferred ? 1 : 0);
+  }
+}
+
+export default RWLock;
@@ -0,0 +1,223 @@
+import Semaphore from './semaphore';
+import QueuePolicy from './queue-policy';
+import { VirtualClock } from './testing';
+import { ErrorCode } from './@internals/errors';
+import { CancellationTokenSource, isCancellationError } from './cancellation';
+
+
+describe('Semaphore', () => {
+  async function order(semaphore: Semaphore, requests: { name: string; weight?: number; priority?: number }[], advance?: () => Promise<void>): Promise<string[]> {
+    const served: string[] = [];
+    const [, release] = await semaphore.acquire(semaphore.getCapacity());
+
+    const pending = requests.map(({ name, weight = 1, priority = 0 }) => semaphore.acquire(weight, priority).then(([, guard]) => {
+      served.push(name);
+      guard();
+    }));
+
+    await advance?.();
+    release();
+    await Promise.all(pending);
+
+    return served;
+  }
+
+  test('should release several holders at once', async () => {
+    const semaphore = new Semaphore(4);
+
+    const [, first] = await semaphore.acquire(1);
+    const [, second] = await semaphore.acquire(3);
+
+    semaphore.release(4);
+
+    expect(semaphore.getValue()).toBe(4);
+    expect(semaphore.getStats().holders).toEqual([]);
+
+    first();
+    second();
+
+    expect(semaphore.getValue()).toBe(4);
+  });
+
+  test('should leave the last holder released holding what is left', async () => {
+    const semaphore = new Semaphore(6);
+
+    await semaphore.acquire(2);
+    const [, second] = await semaphore.acquire(3);
+
+    semaphore.release(4);
+
+    expect(semaphore.getValue()).toBe(5);
+    expect(semaphore.getStats().holders.map(holder => holder.weight)).toEqual([1]);
+
+    second();
+
+    expect(semaphore.getValue()).toBe(6);
+    expect(semaphore.getStats().holders).toEqual([]);
+  });
+
+  test('should time acquisitions out on its own clock', async () => {
+    const clock = new VirtualClock();
+    const semaphore = new Semaphore(1, { clock });
+
+    await semaphore.acquire();
+
+    const pending = semaphore.acquire(1, 0, { timeout: 100 }).catch(err => err);
+    const unlock = semaphore.whenUnlock(1, 0, { timeout: 200 }).catch(err => err);
+
+    expect(clock.pending).toBe(2);
+
+    await clock.advanceBy(200);
+
+    expect((await pending).code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+    expect((await unlock).code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+    expect(semaphore.getStats().queueLength).toBe(0);
+  });
+
+  test('should remove a cancelled acquisition from the queue', async () => {
+    const semaphore = new Semaphore(1);
+    const source = new CancellationTokenSource();
+
+    const [, release] = await semaphore.acquire();
+
+    const cancelled = semaphore.acquire(1, 0, { token: source.token }).catch(err => err);
+    const next = semaphore.acquire();
+
+    expect(semaphore.getStats().queueLength).toBe(2);
+
+    source.cancel();
+
+    expect(isCancellationError(await cancelled)).toBe(true);
+    expect(semaphore.getStats().queueLength).toBe(1);
+
+    release();
+    const [, guard] = await next;
+
+    expect(semaphore.getStats().queueLength).toBe(0);
+    guard();
+    expect(semaphore.isLocked()).toBe(false);
+  });
+
+  test('should reject every queued acquisition on cancelPending()', async () => {
+    const semaphore = new Semaphore(1);
+    const [, release] = await semaphore.acquire();
+
+    const pending = [semaphore.acquire(), semaphore.acquire(1, 5)].map(promise => promise.catch(err => err));
+    semaphore.cancelPending('stop');
+
+    expect(await Promise.all(pending)).toEqual(['stop', 'stop']);
+    expect(semaphore.getStats().queueLength).toBe(0);
+
+    release();
+    expect(semaphore.getValue()).toBe(1);
+  });
+
+  test('should serve higher priorities first, then in arrival order', async () => {
+    const served = await order(new Semaphore(1), [
+      { name: 'a', priority: 0 },
+      { name: 'b', priority: 2 },
+      { name: 'c', priority: 1 },
+      { name: 'd', priority: 2 },
+    ]);
+
+    expect(served).toEqual(['b', 'd', 'c', 'a']);
+  });
+
+  test('should serve in arrival order with the fifo policy', async () => {
+    const served = await order(new Semaphore(1, { queuePolicy: QueuePolicy.fifo }), [
+      { name: 'a', priority: 0 },
+      { name: 'b', priority: 2 },
+      { name: 'c', priority: 1 },
+    ]);
+
+    expect(served).toEqual(['a', 'b', 'c']);
+  });
+
+  test('should raise the priority of the acquisitions waiting longer with the aging policy', async () => {
+    const clock = new VirtualClock();
+    const semaphore = new Semaphore(1, { clock, queuePolicy: QueuePolicy.aging({ interval: 10 }) });
+
+    const served: string[] = [];
+    const [, release] = await semaphore.acquire();
+
+    const track = (name: string, priority: number) => semaphore.acquire(1, priority).then(([, guard]) => {
+      served.push(name);
+      guard();
+    });
+
+    const old = track('old', 0);
+    await clock.advanceBy(50);
+    const recent = track('recent', 3);
+
+    release();
+    await Promise.all([old, recent]);
+
+    expect(served).toEqual(['old', 'recent']);
+  });
+
+  test('should let lighter acquisitions skip ahead of one that does not fit', async () => {
+    const semaphore = new Semaphore(2, { queuePolicy: QueuePolicy.skipAhead() });
+    const [, partial] = await semaphore.acquire(1);
+
+    const heavy = semaphore.acquire(2, 1);
+    const [, light] = await semaphore.acquire(1);
+
+    expect(semaphore.getStats().queueLength).toBe(1);
+
+    light();
+    partial();
+    (await heavy)[1]();
+
+    expect(semaphore.getValue()).toBe(2);
+  });
+
+  test('should place a waiter by the ages at the time it is enqueued', async () => {
+    const clock = new VirtualClock();
+    const semaphore = new Semaphore(1, { clock, queuePolicy: QueuePolicy.aging({ interval: 10 }) });
+
+    const served: string[] = [];
+    const [, release] = await semaphore.acquire();
+
+    const track = (name: string, priority: number) => semaphore.acquire(1, priority).then(([, guard]) => {
+      served.push(name);
+      guard();
+    });
+
+    const y = track('y', 0);
+    await clock.advanceBy(9);
+
+    const x = track('x', 1);
+    const w = semaphore.acquire(1, 10);
+
+    release();
+    const [, releaseW] = await w;
+
+    // Ten milliseconds in, y caught up with x and goes first as it came first
+    await clock.advanceBy(1);
+    const z = track('z', 1);
+
+    releaseW();
+    await Promise.all([x, y, z]);
+
+    expect(served).toEqual(['y', 'x', 'z']);
+  });
+
+  test('should rank unlock waiters with the queue policy', async () => {
+    const semaphore = new Semaphore(2, { queuePolicy: QueuePolicy.fifo });
+    const [, release] = await semaphore.acquire(1);
+
+    const heavy = semaphore.acquire(2);
+
+    let unlocked = false;
+    const unlock = semaphore.whenUnlock(1, 5).then(() => void (unlocked = true));
+
+    await Promise.resolve();
+    expect(unlocked).toBe(false);
+
+    release();
+    (await heavy)[1]();
+    await unlock;
+
+    expect(unlocked).toBe(true);
+  });
+});
@@ -1,107 +1,291 @@
 import { assert } from '@rapid-d-kit/safe';
-import { Iterable } from '@rapid-d-kit/iterator';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+import type { LooseAutocomplete } from '@rapid-d-kit/types';
 
 import { Async } from './core';
 import promises from './promises';
+import { DefaultClock, IClock } from './clock';
 import { Exception } from './@internals/errors';
+import toLockGuard, { LockGuard } from './lock-guard';
+import { IQueuePolicy, QueuedAcquisition, QueuePolicy } from './queue-policy';
+import { insertSorted, watchWaiter, WaiterMessages } from './@internals/waiters';
+import { ListenerCallback, WeakEventEmitter } from './event-emitter';
 import { CancellationToken, ICancellationToken } from './cancellation';
 
 
+/**
+ * Options accepted by the waiting methods of the concurrency handlers.
+ *
+ * A waiter that times out or whose token is cancelled is removed from the queue
+ * and rejected with an `ERR_TIMEOUT` or `ERR_TOKEN_CANCELLED` exception.
+ */
+export type AcquireOptions = {
+  timeout?: number;
+  token?: ICancellationToken;
+
+  /**
+   * A name for this acquisition, reported with its holder in stats and events.
+   */
+  label?: string;
+};
+
+export type SemaphoreOptions = {
+  /**
+   * A name for the semaphore, reported in its stats.
+   */
+  name?: string;
+
+  /**
+   * The highest value the semaphore can be released up to, releasing beyond it throws.
+   * Defaults to the initial value.
+   */
+  capacity?: number;
+
+  /**
+   * How long a holder may keep its weight, in milliseconds, before a `longHold` event
+   * reports it as a suspected deadlock. Disabled by default.
+   */
+  longHoldThreshold?: number;
+
+  /**
+   * The order in which waiting acquisitions are served. Defaults to `QueuePolicy.strict`.
+   */
+  queuePolicy?: IQueuePolicy;
+
+  /**
+   * Whether the stack trace of each acquisition is recorded with its holder. Disabled by default as it is costly.
+   */
+  captureStacks?: boolean;
+  clock?: IClock;
+};
+
+export type SemaphoreHolder = {
+  readonly id: number;
+  readonly weight: number;
+  readonly priority: number;
+  readonly acquiredAt: number;
+  readonly label?: string;
+  readonly stack?: string;
+};
+
+export type WaitTimeHistogram = {
+  count: number;
+  total: number;
+  max: number;
+
+  /**
+   * The number of waits of each duration range, a bucket counting the waits longer than
+   * the previous bucket's bound and shorter than or as long as its own `le` bound.
+   */
+  buckets: { le: number; count: number }[];
+};
+
+export type SemaphoreStats = {
+  name?: string;
+  value: number;
+  queueLength: number;
+  waitersByPriority: { priority: number; count: number }[];
+  unlockWaiters: number;
+  holders: SemaphoreHolder[];
+  acquisitions: number;
+  contentions: number;
+  waitTime: WaitTimeHistogram;
+};
+
+/**
+ * The value of the semaphore before the acquisition, and the guard releasing it.
+ * The pair itself can be disposed of as well, so `using lock = await semaphore.acquire()` works.
+ */
+export type SemaphoreLock = [value: number, release: LockGuard] & Disposable & AsyncDisposable;
+
+export type SemaphoreEvents = {
+  acquire: [holder: SemaphoreHolder, waited: number];
+  release: [holder: SemaphoreHolder, heldFor: number];
+  contended: [weight: number, priority: number, queueLength: number];
+  longHold: [holder: SemaphoreHolder, heldFor: number];
+};
+
 export interface ISemaphore extends Async.IAbstractConcurrencyHandler {
-  acquire(weight?: number, priority?: number): Promise<readonly [number, () => void]>;
-  runExclusive<T>(callback: (value: number) => Promise<T> | T, _: { weight?: number; priority?: number; token?: ICancellationToken }): Promise<T>;
-  whenUnlock(weight?: number, priority?: number): Promise<void>;
+  acquire(weight?: number, priority?: number, options?: AcquireOptions): Promise<SemaphoreLock>;
+  runExclusive<T>(callback: (value: number) => Promise<T> | T, _: { weight?: number; priority?: number; token?: ICancellationToken | AbortSignal; timeout?: number }): Promise<T>;
+  whenUnlock(weight?: number, priority?: number, options?: AcquireOptions): Promise<void>;
   getValue(): number;
   setValue(value: number): void;
+  getCapacity(): number;
   release(weight?: number): void;
   cancelPending(): void;
 }
 
 
 type Entry = {
-  resolve(value: [number, () => void]): void;
+  resolve(value: SemaphoreLock): void;
   reject(reason?: unknown): void;
   weight: number;
   priority: number;
+  requestedAt: number;
+  sequence: number;
+  label?: string;
+  stack?: string;
+};
+
+const WAITER_MESSAGES: WaiterMessages = {
+  timeout: timeout => `Timed out after waiting ${timeout}ms to acquire the semaphore`,
+  cancelled: 'Async execution of semaphore method was cancelled by token',
 };
 
+const WAIT_TIME_BOUNDS = [1, 5, 10, 50, 100, 500, 1000, 5000, 30_000, Infinity];
+
 type Waiter = {
   resolve(): void;
+  weight: number;
   priority: number;
+  requestedAt: number;
+  sequence: number;
 };
 
+type Ranked = QueuedAcquisition & { readonly sequence: number };
+
 export class Semaphore implements ISemaphore {
   #value: number;
+  #capacity: number;
   #queue: Entry[];
   #weightedWaiters: Waiter[][];
-
-  public constructor(_value: number) {
+  #nextHolderId: number = 1;
+  #nextSequence: number = 0;
+  #sortedAt: number = NaN;
+  #unsorted: boolean = false;
+  #acquisitions: number = 0;
+  #contentions: number = 0;
+  #waitTime: WaitTimeHistogram = _createHistogram();
+  readonly #holders: Map<number, { holder: SemaphoreHolder; timer: IDisposable | null }> = new Map();
+  readonly #options: SemaphoreOptions & { clock: IClock; queuePolicy: IQueuePolicy };
+  readonly #events: WeakEventEmitter<SemaphoreEvents> = new WeakEventEmitter();
+
+  public constructor(_value: number, _options?: SemaphoreOptions) {
     this.#value = _value;
     this.#queue = [];
     this.#weightedWaiters = [];
+    this.#options = {
+      ..._options,
+      clock: _options?.clock ?? DefaultClock,
+      queuePolicy: _options?.queuePolicy ?? QueuePolicy.strict,
+    };
+    this.#capacity = _options?.capacity ?? _value;
+
+    assert(typeof this.#capacity === 'number' && this.#capacity >= _value);
+
+    if(typeof this.#options.longHoldThreshold !== 'undefined') {
+      assert(typeof this.#options.longHoldThreshold === 'number' && this.#options.longHoldThreshold >= 0);
+    }
   }
 
-  public acquire(weight: number = 1, priority: number = 0): Promise<[number, () => void]> {
+  public acquire(weight: number = 1, priority: number = 0, options: AcquireOptions = {}): Promise<SemaphoreLock> {
     assert(typeof weight === 'number' && Number.isInteger(weight) && weight > 0);
+    _assertAcquireOptions(options);
+
+    if(options.token?.isCancellationRequested)
+      return Promise.reject(new Exception('Async execution of semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
 
     return new Promise((resolve, reject) => {
       const task: Entry = {
         resolve, reject,
         weight, priority,
+        requestedAt: this.#options.clock.now(),
+        sequence: this.#nextSequence++,
+        label: options.label,
+        stack: this.#options.captureStacks ? _captureStack() : undefined,
       };
 
-      const i = Iterable.findLastIndex(this.#queue, other => priority <= other.priority);
+      this.#enqueue(task);
+      this.#flushQueue();
 
-      if(i === -1 && weight <= this.#value) {
-        this.#dispatch(task);
-      } else {
-        this.#queue.splice(i + 1, 0, task);
-      }
+      if(!this.#queue.includes(task)) return;
+
+      this.#contentions++;
+      this.#events.emit('contended', weight, priority, this.#queue.length);
+
+      watchWaiter(task, reject, { ...options, clock: this.#options.clock }, () => {
+        const index = this.#queue.indexOf(task);
+        if(index < 0) return;
+
+        this.#queue.splice(index, 1);
+
+        // The removed entry may have been the head blocking lighter ones behind it
+        this.#flushQueue();
+      }, WAITER_MESSAGES);
     });
   }
 
-  public runExclusive<T>(callback: (value: number) => T | Promise<T>, { weight = 1, priority = 0, token = CancellationToken.None }: { weight?: number; priority?: number; token?: ICancellationToken } = {}): Promise<T> {
+  public runExclusive<T>(callback: (value: number) => T | Promise<T>, { weight = 1, priority = 0, token: tokenOrSignal, timeout }: { weight?: number; priority?: number; token?: ICancellationToken | AbortSignal; timeout?: number } = {}): Promise<T> {
+    const token = CancellationToken.from(tokenOrSignal);
+
     return promises.withAsyncBody(async (resolve, reject) => {
       if(token.isCancellationRequested) {
         reject(new Exception('Async execution of semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
         return;
       }
 
-      token.onCancellationRequested(() => {
+      const listener = token.onCancellationRequested(() => {
         reject(new Exception('Async execution of semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
       });
 
-      const [value, release] = await this.acquire(weight, priority);
-
       try {
-        const result = await callback(value);
+        const [value, release] = await this.acquire(weight, priority, { token, timeout });
 
-        if(token.isCancellationRequested) {
-          reject(new Exception('Async execution of semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
-          return;
-        }
+        try {
+          const result = await callback(value);
+
+          if(token.isCancellationRequested) {
+            reject(new Exception('Async execution of semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+            return;
+          }
 
-        resolve(result);
-      } catch (err: any) {
-        reject(err);
+          resolve(result);
+        } catch (err: any) {
+          reject(err);
+        } finally {
+          release();
+        }
       } finally {
-        release();
+        // The token may be shared by many calls, e.g. when it follows a reused AbortSignal
+        listener.dispose();
       }
     });
   }
 
-  public whenUnlock(weight: number = 1, priority: number = 0): Promise<void> {
+  public whenUnlock(weight: number = 1, priority: number = 0, options: AcquireOptions = {}): Promise<void> {
     assert(typeof weight === 'number' && Number.isInteger(weight) && weight > 0);
+    _assertAcquireOptions(options);
+
+    if(options.token?.isCancellationRequested)
+      return Promise.reject(new Exception('Async execution of semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED'));
+
+    const waiter: Omit<Waiter, 'resolve'> = {
+      weight, priority,
+      requestedAt: this.#options.clock.now(),
+      sequence: this.#nextSequence++,
+    };
 
-    if(this.#couldLockImmediately(weight, priority))
+    if(this.#couldLockImmediately(waiter))
       return Promise.resolve();
 
-    return new Promise(resolve => {
+    return new Promise((resolve, reject) => {
       if(!this.#weightedWaiters[weight - 1]) {
         this.#weightedWaiters[weight - 1] = [];
       }
 
-      _insertSorted(this.#weightedWaiters[weight - 1], { resolve, priority });
+      const entry: Waiter = { ...waiter, resolve };
+      insertSorted(this.#weightedWaiters[weight - 1], entry);
+
+      watchWaiter(entry, reject, { ...options, clock: this.#options.clock }, () => {
+        // The drain replaces the waiters list, so it must be looked up again here
+        const waiters = this.#weightedWaiters[weight - 1];
+        const index = waiters?.indexOf(entry) ?? -1;
+
+        if(index >= 0) {
+          waiters.splice(index, 1);
+        }
+      }, WAITER_MESSAGES);
     });
   }
 
@@ -113,15 +297,90 @@ export class Semaphore implements ISemaphore {
     return this.#value;
   }
 
+  /**
+   * Sets the current value. The capacity moves by the same amount, as the weight
+   * held by the current holders is unchanged.
+   */
   public setValue(value: number): void {
+    this.#capacity += value - this.#value;
     this.#value = value;
     this.#flushQueue();
   }
 
+  public getCapacity(): number {
+    return this.#capacity;
+  }
+
+  /**
+   * Gives back `weight` without going through a guard, for instance on behalf of another caller.
+   * The oldest holder of exactly that weight is the one reported as released, and its guard is disarmed.
+   * Failing that, the holders are released from the oldest on until `weight` is reached, the last one
+   * being reported as holding what is left if it holds more; its guard then gives back only that.
+   *
+   * Throws an `ERR_CONSTRAINT_VIOLATION` exception if the value would exceed the capacity.
+   */
   public release(weight: number = 1): void {
+    assert(typeof weight === 'number' && Number.isInteger(weight) && weight > 0);
+    this.#ensureCapacity(weight);
+
+    const holders = [...this.#holders.values()];
+    const exact = holders.find(({ holder }) => holder.weight === weight);
+
+    if(exact) {
+      this.#forgetHolder(exact.holder.id);
+    } else {
+      let remaining = weight;
+
+      for(const entry of holders) {
+        if(remaining === 0) break;
+
+        if(entry.holder.weight <= remaining) {
+          remaining -= entry.holder.weight;
+          this.#forgetHolder(entry.holder.id);
+        } else {
+          entry.holder = Object.freeze({ ...entry.holder, weight: entry.holder.weight - remaining });
+          remaining = 0;
+        }
+      }
+    }
+
     this.#DoRelease(weight);
   }
 
+  /**
+   * Returns a snapshot of the state of the semaphore: its queue, its holders and how long acquisitions waited.
+   */
+  public getStats(): SemaphoreStats {
+    const byPriority = new Map<number, number>();
+
+    for(const entry of this.#queue) {
+      byPriority.set(entry.priority, (byPriority.get(entry.priority) ?? 0) + 1);
+    }
+
+    return {
+      name: this.#options.name,
+      value: this.#value,
+      queueLength: this.#queue.length,
+      waitersByPriority: [...byPriority].map(([priority, count]) => ({ priority, count })),
+      unlockWaiters: this.#weightedWaiters.reduce((count, waiters) => count + (waiters?.length ?? 0), 0),
+      holders: [...this.#holders.values()].map(({ holder }) => holder),
+      acquisitions: this.#acquisitions,
+      contentions: this.#contentions,
+      waitTime: {
+        ...this.#waitTime,
+        buckets: this.#waitTime.buckets.map(bucket => ({ ...bucket })),
+      },
+    };
+  }
+
+  public addListener<K extends keyof SemaphoreEvents>(event: LooseAutocomplete<K>, listener: ListenerCallback<SemaphoreEvents[K]>): IDisposable {
+    return this.#events.addListener(event, listener);
+  }
+
+  public removeListener<K extends keyof SemaphoreEvents>(event: LooseAutocomplete<K>, listener: ListenerCallback<SemaphoreEvents[K]>): boolean {
+    return this.#events.removeListener(event, listener);
+  }
+
   public cancelPending(reason?: any): void {
     for(let i = 0; i < this.#queue.length; i++) {
       this.#queue[i].reject(reason);
@@ -134,22 +393,78 @@ export class Semaphore implements ISemaphore {
     const prev = this.#value;
     this.#value -= entry.weight;
 
-    entry.resolve([prev, this.#releaser(entry.weight)]);
+    const holder = this.#trackHolder(entry);
+    const guard = this.#guard(holder.id);
+
+    entry.resolve(Object.defineProperties([prev, guard], {
+      [Symbol.dispose]: { value: guard[Symbol.dispose] },
+      [Symbol.asyncDispose]: { value: guard[Symbol.asyncDispose] },
+    }) as SemaphoreLock);
   }
 
-  #releaser(weight: number): () => void {
-    let called = false;
+  #guard(holderId: number): LockGuard {
+    return toLockGuard(() => {
+      const entry = this.#holders.get(holderId);
 
-    return () => {
-      if(called) return;
-      called = true;
+      // Already released on the holder's behalf through `release()`
+      if(!entry) return;
 
-      this.#DoRelease(weight);
-    };
+      this.#forgetHolder(holderId);
+      this.#DoRelease(entry.holder.weight);
+    });
+  }
+
+  #trackHolder(entry: Entry): SemaphoreHolder {
+    const now = this.#options.clock.now();
+    const waited = now - entry.requestedAt;
+
+    const holder: SemaphoreHolder = Object.freeze({
+      id: this.#nextHolderId++,
+      weight: entry.weight,
+      priority: entry.priority,
+      acquiredAt: now,
+      label: entry.label,
+      stack: entry.stack,
+    });
+
+    const threshold = this.#options.longHoldThreshold;
+
+    const timer = typeof threshold === 'number' ?
+      this.#options.clock.setTimeout(() => {
+        const current = this.#holders.get(holder.id)?.holder;
+
+        if(current) {
+          this.#events.emit('longHold', current, this.#options.clock.now() - current.acquiredAt);
+        }
+      }, threshold) :
+      null;
+
+    this.#holders.set(holder.id, { holder, timer });
+    this.#acquisitions++;
+    _recordWaitTime(this.#waitTime, waited);
+
+    this.#events.emit('acquire', holder, waited);
+    return holder;
+  }
+
+  #forgetHolder(holderId: number): void {
+    const entry = this.#holders.get(holderId);
+    if(!entry) return;
+
+    entry.timer?.dispose();
+    this.#holders.delete(holderId);
+
+    this.#events.emit('release', entry.holder, this.#options.clock.now() - entry.holder.acquiredAt);
+  }
+
+  #ensureCapacity(weight: number): void {
+    if(this.#value + weight <= this.#capacity) return;
+    throw new Exception(`Cannot release ${weight} as the semaphore would exceed its capacity of ${this.#capacity}`, 'ERR_CONSTRAINT_VIOLATION');
   }
 
   #DoRelease(weight: number = 1): void {
     assert(typeof weight === 'number' && Number.isInteger(weight) && weight > 0);
+    this.#ensureCapacity(weight);
 
     this.#value += weight;
     this.#flushQueue();
@@ -158,15 +473,100 @@ export class Semaphore implements ISemaphore {
   #flushQueue(): void {
     this.#drainUnlockWaiters();
 
-    while(this.#queue.length > 0 && this.#queue[0].weight <= this.#value) {
-      this.#dispatch(this.#queue.shift()!);
+    for(let index = this.#next(); index >= 0; index = this.#next()) {
+      const [entry] = this.#queue.splice(index, 1);
+
+      this.#dispatch(entry);
       this.#drainUnlockWaiters();
     }
   }
 
+  /**
+   * Returns the index of the waiting entry to serve now according to the queue policy,
+   * or -1 if none fits in the current value.
+   */
+  #next(): number {
+    // Every weight is at least one
+    if(this.#value < 1) return -1;
+
+    const queue = this.#ordered();
+
+    for(let i = 0; i < queue.length; i++) {
+      if(queue[i].weight <= this.#value) return i;
+      if(!this.#options.queuePolicy.skipAhead) return -1;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Inserts `entry` after every entry the queue policy serves before it or alongside it.
+   */
+  #enqueue(entry: Entry): void {
+    // An order that changes over time only holds at the time the queue was sorted at, so rather
+    // than being compared at another time the entry is placed with the next sort of the queue
+    if(this.#options.queuePolicy.reorderInterval) {
+      this.#queue.push(entry);
+      this.#unsorted = true;
+
+      return;
+    }
+
+    const now = this.#options.clock.now();
+    let low = 0, high = this.#queue.length;
+
+    while(low < high) {
+      const middle = (low + high) >>> 1;
+
+      if(this.#compare(this.#queue[middle], entry, now) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    this.#queue.splice(low, 0, entry);
+  }
+
+  /**
+   * Returns the queue in serving order. It is kept sorted on insertion, unless the order of the policy
+   * changes over time: the queue is then sorted as a whole once entries were added, and again once per
+   * reorder interval, so every entry is always ranked at the same time.
+   */
+  #ordered(): Entry[] {
+    const interval = this.#options.queuePolicy.reorderInterval;
+    if(!interval) return this.#queue;
+
+    const now = this.#options.clock.now();
+
+    if(this.#unsorted || !(now - this.#sortedAt < interval)) {
+      this.#queue.sort((a, b) => this.#compare(a, b, now));
+
+      this.#sortedAt = now;
+      this.#unsorted = false;
+    }
+
+    return this.#queue;
+  }
+
+  /**
+   * Whether the queue policy serves `a` before `b`, arrival order breaking ties.
+   */
+  #compare(a: Ranked, b: Ranked, now: number): number {
+    return this.#options.queuePolicy.compare(a, b, now) || a.sequence - b.sequence;
+  }
+
+  /**
+   * Whether the queue policy serves `acquisition` before every waiting entry.
+   */
+  #isAhead(acquisition: Ranked): boolean {
+    if(this.#queue.length === 0) return true;
+    return this.#compare(acquisition, this.#ordered()[0], this.#options.clock.now()) < 0;
+  }
+
   #drainUnlockWaiters(): void {
     if(this.#queue.length === 0) {
-      for(let weight = this.#value; weight > 0; weight--) {
+      for(let weight = Math.min(this.#value, this.#weightedWaiters.length); weight > 0; weight--) {
         const waiters = this.#weightedWaiters[weight - 1];
         if(!waiters) continue;
 
@@ -174,30 +574,49 @@ export class Semaphore implements ISemaphore {
         this.#weightedWaiters[weight - 1] = [];
       }
     } else {
-      const pp = this.#queue[0].priority;
-
-      for(let weight = this.#value; weight > 0; weight--) {
+      for(let weight = Math.min(this.#value, this.#weightedWaiters.length); weight > 0; weight--) {
         const waiters = this.#weightedWaiters[weight - 1];
         if(!waiters) continue;
 
-        const index = waiters.findIndex(item => item.priority <= pp);
+        const ahead = waiters.filter(item => this.#isAhead(item));
+        if(ahead.length === 0) continue;
 
-        (index === -1 ? waiters : waiters.splice(0, index))
-          .forEach(item => item.resolve());
+        this.#weightedWaiters[weight - 1] = waiters.filter(item => !ahead.includes(item));
+        ahead.forEach(item => item.resolve());
       }
     }
   }
 
-  #couldLockImmediately(weight: number, priority: number): boolean {
-    return (
-      this.#queue.length === 0 || this.#queue[0].priority < priority
-    ) && weight <= this.#value;
+  #couldLockImmediately(acquisition: Ranked): boolean {
+    return acquisition.weight <= this.#value && this.#isAhead(acquisition);
   }
 }
 
-function _insertSorted<T extends { priority: number }>(arr: T[], value: T): void {
-  const index = Iterable.findLastIndex(arr, other => value.priority <= other.priority);
-  arr.splice(index + 1, 0, value);
+function _assertAcquireOptions(options: AcquireOptions): void {
+  if(typeof options.timeout === 'undefined') return;
+  assert(typeof options.timeout === 'number' && options.timeout >= 0);
+}
+
+function _createHistogram(): WaitTimeHistogram {
+  return {
+    count: 0,
+    total: 0,
+    max: 0,
+    buckets: WAIT_TIME_BOUNDS.map(le => ({ le, count: 0 })),
+  };
+}
+
+function _recordWaitTime(histogram: WaitTimeHistogram, waited: number): void {
+  histogram.count++;
+  histogram.total += waited;
+  histogram.max = Math.max(histogram.max, waited);
+
+  histogram.buckets.find(bucket => waited <= bucket.le)!.count++;
+}
+
+function _captureStack(): string | undefined {
+  // Drops the message line and the frames of the semaphore itself
+  return new Error().stack?.split('\n').slice(5).join('\n');
 }
 
 export default Semaphore;
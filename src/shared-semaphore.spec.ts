@@ -0,0 +1,124 @@
+import { join } from 'path';
+import { Worker } from 'worker_threads';
+
+import { VirtualClock } from './testing';
+import { SharedMutex, SharedSemaphore } from './shared-semaphore';
+import { ErrorCode } from './@internals/errors';
+
+
+// The workers load the sources through Babel, as the tests do
+const WORKER_SOURCE = `
+  require('@babel/register')({ extensions: ['.ts', '.js'] });
+
+  const { parentPort, workerData } = require('worker_threads');
+  const { SharedMutex } = require(${JSON.stringify(join(__dirname, 'shared-semaphore.ts'))});
+
+  const mutex = new SharedMutex(workerData.buffer);
+  const counters = new Int32Array(workerData.counters);
+
+  (async () => {
+    if(workerData.timeout) {
+      try {
+        await mutex.acquire(0, { timeout: workerData.timeout });
+        parentPort.postMessage({ acquired: true });
+      } catch (err) {
+        parentPort.postMessage({ acquired: false, code: err.code });
+      }
+
+      return;
+    }
+
+    for(let i = 0; i < workerData.rounds; i++) {
+      await mutex.runExclusive(async () => {
+        const inside = Atomics.add(counters, 0, 1) + 1;
+        Atomics.store(counters, 1, Math.max(Atomics.load(counters, 1), inside));
+
+        await new Promise(resolve => setTimeout(resolve, 1));
+
+        counters[2]++;
+        Atomics.sub(counters, 0, 1);
+      });
+    }
+
+    parentPort.postMessage({ done: true });
+  })();
+`;
+
+function run(workerData: object): Promise<any> {
+  const worker = new Worker(WORKER_SOURCE, { eval: true, workerData });
+
+  return new Promise<any>((resolve, reject) => {
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    worker.once('exit', code => reject(new Error(`The worker exited with code ${code} before answering`)));
+  }).finally(() => worker.terminate());
+}
+
+
+describe('SharedMutex', () => {
+  test('should let a single worker in at a time', async () => {
+    const mutex = new SharedMutex();
+    const counters = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT * 3);
+
+    await Promise.all([
+      run({ buffer: mutex.buffer, counters, rounds: 20 }),
+      run({ buffer: mutex.buffer, counters, rounds: 20 }),
+    ]);
+
+    const [inside, peak, total] = new Int32Array(counters);
+
+    expect(inside).toBe(0);
+    expect(peak).toBe(1);
+    expect(total).toBe(40);
+    expect(mutex.isLocked()).toBe(false);
+  }, 30_000);
+
+  test('should time a worker out while another thread holds the lock', async () => {
+    const mutex = new SharedMutex();
+    const counters = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT * 3);
+
+    const release = await mutex.acquire();
+    const result = await run({ buffer: mutex.buffer, counters, timeout: 50 });
+
+    expect(result).toEqual({ acquired: false, code: ErrorCode.for('ERR_TIMEOUT').getCode() });
+
+    release();
+    expect(mutex.isLocked()).toBe(false);
+  }, 30_000);
+
+  test('should refuse to release a lock held through another instance', async () => {
+    const mutex = new SharedMutex();
+    const other = new SharedMutex(mutex.buffer);
+
+    const release = await mutex.acquire();
+
+    expect(() => other.release()).toThrow();
+    expect(other.isLocked()).toBe(true);
+
+    mutex.release();
+    expect(mutex.isLocked()).toBe(false);
+
+    release();
+    expect(mutex.isLocked()).toBe(false);
+  });
+});
+
+
+describe('SharedSemaphore', () => {
+  test('should time acquisitions out on its own clock', async () => {
+    const clock = new VirtualClock();
+    const semaphore = new SharedSemaphore(1, { clock });
+
+    const release = await semaphore.acquire();
+    const pending = semaphore.acquire(1, 0, { timeout: 100 }).catch(err => err);
+
+    await clock.advanceBy(99);
+    expect(clock.pending).toBe(1);
+
+    await clock.advanceBy(1);
+    expect((await pending).code).toBe(ErrorCode.for('ERR_TIMEOUT').getCode());
+
+    release();
+    expect(semaphore.getValue()).toBe(1);
+  });
+});
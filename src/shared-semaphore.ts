@@ -0,0 +1,303 @@
+import { assert } from '@rapid-d-kit/safe';
+import type { IDisposable } from '@rapid-d-kit/disposable';
+
+import Mutex, { IMutex } from './mutex';
+import { Exception } from './@internals/errors';
+import type { AcquireOptions } from './semaphore';
+import { DefaultClock, IClock } from './clock';
+import toLockGuard, { LockGuard } from './lock-guard';
+import { CancellationToken, CancellationTokenSource, ICancellationToken } from './cancellation';
+
+
+const VALUE = 0;
+const CAPACITY = 1;
+
+
+export type SharedSemaphoreOptions = {
+  /**
+   * The clock of the acquisition timeouts. Defaults to `DefaultClock`.
+   */
+  clock?: IClock;
+};
+
+
+/**
+ * A semaphore whose state lives in a `SharedArrayBuffer`, so it can be shared between worker threads:
+ * pass `semaphore.buffer` to a worker and construct a `SharedSemaphore` over it there.
+ *
+ * Within a thread, waiters are served by priority. Across threads there is no ordering: whichever
+ * thread sees the permits first takes them.
+ */
+export class SharedSemaphore {
+  readonly #state: Int32Array;
+  readonly #clock: IClock;
+  readonly #gate: Mutex = new Mutex();
+  readonly #sources: Set<CancellationTokenSource> = new Set();
+
+  /**
+   * Constructs a SharedSemaphore.
+   *
+   * @param valueOrBuffer - The initial number of permits, or the buffer of a semaphore created in another thread.
+   * @param options - The options of this thread's view of the semaphore.
+   */
+  public constructor(valueOrBuffer: number | SharedArrayBuffer, options: SharedSemaphoreOptions = {}) {
+    this.#clock = options.clock ?? DefaultClock;
+
+    if(typeof valueOrBuffer === 'number') {
+      assert(Number.isInteger(valueOrBuffer) && valueOrBuffer > 0);
+
+      this.#state = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT * 2));
+      this.#state[VALUE] = valueOrBuffer;
+      this.#state[CAPACITY] = valueOrBuffer;
+    } else {
+      assert(valueOrBuffer instanceof SharedArrayBuffer && valueOrBuffer.byteLength === Int32Array.BYTES_PER_ELEMENT * 2);
+      this.#state = new Int32Array(valueOrBuffer);
+    }
+  }
+
+  /**
+   * The shared state, to be posted to the other threads.
+   */
+  public get buffer(): SharedArrayBuffer {
+    return this.#state.buffer as SharedArrayBuffer;
+  }
+
+  public getValue(): number {
+    return Atomics.load(this.#state, VALUE);
+  }
+
+  public getCapacity(): number {
+    return Atomics.load(this.#state, CAPACITY);
+  }
+
+  public isLocked(): boolean {
+    return this.getValue() <= 0;
+  }
+
+  public async acquire(weight: number = 1, priority: number = 0, options: AcquireOptions = {}): Promise<LockGuard> {
+    assert(Number.isInteger(weight) && weight > 0 && weight <= this.getCapacity());
+
+    const deadline = typeof options.timeout === 'number' ? this.#clock.now() + options.timeout : Infinity;
+    const gate = await this.#gate.acquire(priority, options);
+
+    try {
+      await this.#take(weight, deadline, options.token);
+    } finally {
+      gate();
+    }
+
+    return toLockGuard(() => this.release(weight));
+  }
+
+  public tryAcquire(weight: number = 1): LockGuard | null {
+    assert(Number.isInteger(weight) && weight > 0);
+
+    if(this.#gate.isLocked() || !this.#tryTake(weight)) return null;
+    return toLockGuard(() => this.release(weight));
+  }
+
+  public async runExclusive<T>(callback: () => T | Promise<T>, { weight = 1, priority = 0, token, timeout }: { weight?: number; priority?: number; token?: ICancellationToken | AbortSignal; timeout?: number } = {}): Promise<T> {
+    const release = await this.acquire(weight, priority, { token: token ? CancellationToken.from(token) : undefined, timeout });
+
+    try {
+      return await callback();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Resolves once at least `weight` permits are free, without taking them.
+   */
+  public async whenUnlock(weight: number = 1, priority: number = 0, options: AcquireOptions = {}): Promise<void> {
+    assert(Number.isInteger(weight) && weight > 0);
+
+    const deadline = typeof options.timeout === 'number' ? this.#clock.now() + options.timeout : Infinity;
+    await this.#gate.whenUnlock(priority, options);
+
+    for(let value = this.getValue(); value < weight; value = this.getValue()) {
+      await this.#wait(value, deadline, options.token);
+    }
+  }
+
+  /**
+   * Gives back `weight` permits and wakes up the waiters of every thread.
+   * Throws an `ERR_CONSTRAINT_VIOLATION` exception if the value would exceed the capacity.
+   */
+  public release(weight: number = 1): void {
+    assert(Number.isInteger(weight) && weight > 0);
+
+    for(;;) {
+      const current = Atomics.load(this.#state, VALUE);
+
+      if(current + weight > this.getCapacity()) {
+        throw new Exception(`Cannot release ${weight} as the shared semaphore would exceed its capacity of ${this.getCapacity()}`, 'ERR_CONSTRAINT_VIOLATION');
+      }
+
+      if(Atomics.compareExchange(this.#state, VALUE, current, current + weight) === current) break;
+    }
+
+    Atomics.notify(this.#state, VALUE);
+  }
+
+  /**
+   * Rejects the pending acquisitions of this thread.
+   */
+  public cancelPending(reason?: any): void {
+    this.#gate.cancel();
+
+    for(const source of [...this.#sources]) {
+      source.cancel(reason);
+    }
+  }
+
+  async #take(weight: number, deadline: number, token?: ICancellationToken): Promise<void> {
+    for(;;) {
+      const current = Atomics.load(this.#state, VALUE);
+
+      if(current < weight) {
+        // Waits on the value seen here, so a release since then is not missed
+        await this.#wait(current, deadline, token);
+      } else if(Atomics.compareExchange(this.#state, VALUE, current, current - weight) === current) {
+        return;
+      }
+    }
+  }
+
+  #tryTake(weight: number): boolean {
+    for(;;) {
+      const current = Atomics.load(this.#state, VALUE);
+      if(current < weight) return false;
+
+      if(Atomics.compareExchange(this.#state, VALUE, current, current - weight) === current) return true;
+    }
+  }
+
+  /**
+   * Waits for the value to move away from `expected`, or rejects on timeout or cancellation.
+   */
+  async #wait(expected: number, deadline: number, token?: ICancellationToken): Promise<void> {
+    const source = new CancellationTokenSource(token);
+    this.#sources.add(source);
+
+    let listener: IDisposable | null = null;
+    let timer: IDisposable | null = null;
+    let keepAlive: ReturnType<typeof setInterval> | null = null;
+
+    try {
+      if(source.token.isCancellationRequested) {
+        throw new Exception('Async execution of shared semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED');
+      }
+
+      const remaining = deadline - this.#clock.now();
+
+      if(remaining <= 0) {
+        throw new Exception('Timed out waiting to acquire the shared semaphore', 'ERR_TIMEOUT');
+      }
+
+      const result = Atomics.waitAsync(this.#state, VALUE, expected);
+      if(!result.async) return;
+
+      // A pending wait does not keep the event loop alive, so the thread would exit while waiting
+      keepAlive = setInterval(() => void 0, 0x3fffffff);
+
+      // A wait cannot be aborted, so cancelling or timing out wakes everybody up and the other waiters go back to sleep
+      listener = source.token.onCancellationRequested(() => Atomics.notify(this.#state, VALUE));
+
+      if(remaining !== Infinity) {
+        timer = this.#clock.setTimeout(() => Atomics.notify(this.#state, VALUE), remaining);
+      }
+
+      await result.value;
+
+      if(source.token.isCancellationRequested) {
+        throw new Exception('Async execution of shared semaphore method was cancelled by token', 'ERR_TOKEN_CANCELLED');
+      }
+    } finally {
+      if(keepAlive) {
+        clearInterval(keepAlive);
+      }
+
+      timer?.dispose();
+      listener?.dispose();
+      this.#sources.delete(source);
+      source.dispose();
+    }
+  }
+}
+
+
+/**
+ * A mutex whose state lives in a `SharedArrayBuffer`, so it can be shared between worker threads.
+ * See `SharedSemaphore`.
+ */
+export class SharedMutex implements IMutex {
+  readonly #semaphore: SharedSemaphore;
+  #held: LockGuard | null = null;
+
+  public constructor(buffer?: SharedArrayBuffer, options?: SharedSemaphoreOptions) {
+    this.#semaphore = new SharedSemaphore(buffer ?? 1, options);
+    assert(this.#semaphore.getCapacity() === 1);
+  }
+
+  public get buffer(): SharedArrayBuffer {
+    return this.#semaphore.buffer;
+  }
+
+  public async acquire(priority: number = 0, options?: AcquireOptions): Promise<LockGuard> {
+    const guard = await this.#semaphore.acquire(1, priority, options);
+
+    const release = toLockGuard(() => {
+      if(this.#held === release) {
+        this.#held = null;
+      }
+
+      guard();
+    });
+
+    this.#held = release;
+    return release;
+  }
+
+  public runExclusive<T>(callback: () => T | Promise<T>, token?: ICancellationToken | AbortSignal): Promise<T>;
+  public runExclusive<T>(callback: () => T | Promise<T>, priority: number, token?: ICancellationToken | AbortSignal): Promise<T>;
+  public async runExclusive<T>(callback: () => T | Promise<T>, priorityOrToken?: number | ICancellationToken | AbortSignal, token?: ICancellationToken | AbortSignal): Promise<T> {
+    const cancellationToken = typeof priorityOrToken === 'number' ? token : priorityOrToken;
+
+    const release = await this.acquire(typeof priorityOrToken === 'number' ? priorityOrToken : 0, {
+      token: cancellationToken ? CancellationToken.from(cancellationToken) : undefined,
+    });
+
+    try {
+      return await callback();
+    } finally {
+      release();
+    }
+  }
+
+  public whenUnlock(priority?: number, options?: AcquireOptions): Promise<void> {
+    return this.#semaphore.whenUnlock(1, priority, options);
+  }
+
+  public isLocked(): boolean {
+    return this.#semaphore.isLocked();
+  }
+
+  /**
+   * Releases the lock held through this instance, like its guard would. The lock of another
+   * instance, thread or process is left alone: an `ERR_CONSTRAINT_VIOLATION` exception is thrown instead.
+   */
+  public release(): void {
+    if(!this.#held) {
+      throw new Exception('The shared mutex cannot be released as it was not acquired through this instance', 'ERR_CONSTRAINT_VIOLATION');
+    }
+
+    this.#held();
+  }
+
+  public cancel(): void {
+    this.#semaphore.cancelPending();
+  }
+}
+
+export default SharedSemaphore;
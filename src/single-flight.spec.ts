@@ -0,0 +1,72 @@
+import singleFlight from './single-flight';
+import { CancellationTokenSource, ICancellationToken, isCancellationError } from './cancellation';
+
+
+describe('singleFlight', () => {
+  function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(r => void (resolve = r));
+
+    return { promise, resolve };
+  }
+
+  test('should share one call between the concurrent callers of a key', async () => {
+    const gate = deferred<string>();
+    const fn = jest.fn((_token: ICancellationToken, key: string) => gate.promise.then(value => `${key}:${value}`));
+    const shared = singleFlight((key: string) => key, fn);
+
+    const first = shared('a');
+    const second = shared('a');
+    const other = shared('b');
+
+    expect(shared.inFlight).toBe(2);
+    gate.resolve('done');
+
+    await expect(Promise.all([first, second, other])).resolves.toEqual(['a:done', 'a:done', 'b:done']);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(shared.inFlight).toBe(0);
+  });
+
+  test('should start over once the shared call settled', async () => {
+    let calls = 0;
+    const shared = singleFlight(() => 'key', async () => ++calls);
+
+    await expect(shared()).resolves.toBe(1);
+    await expect(shared()).resolves.toBe(2);
+  });
+
+  test('should only cancel the shared call once every caller left', async () => {
+    let token!: ICancellationToken;
+    const shared = singleFlight(() => 'key', (t: ICancellationToken) => {
+      token = t;
+      return new Promise<never>(() => void 0);
+    });
+
+    const a = new CancellationTokenSource();
+    const b = new CancellationTokenSource();
+
+    const first = shared.withToken(a.token).catch(err => err);
+    const second = shared.withToken(b.token).catch(err => err);
+
+    a.cancel();
+
+    expect(isCancellationError(await first)).toBe(true);
+    expect(token.isCancellationRequested).toBe(false);
+
+    b.cancel();
+
+    expect(isCancellationError(await second)).toBe(true);
+    expect(token.isCancellationRequested).toBe(true);
+    expect(shared.inFlight).toBe(0);
+  });
+
+  test('should share the failure of the call', async () => {
+    const shared = singleFlight(() => 'key', async () => {
+      throw new Error('faulty');
+    });
+
+    await expect(Promise.all([shared(), shared()])).rejects.toThrow('faulty');
+    expect(shared.inFlight).toBe(0);
+  });
+});
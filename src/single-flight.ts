@@ -0,0 +1,105 @@
+import { CancellationError, CancellationToken, CancellationTokenSource, ICancellationToken } from './cancellation';
+
+
+export interface SingleFlightFunction<A extends unknown[], R> {
+  (...args: A): Promise<R>;
+
+  /**
+   * Same as calling the function, except that cancelling `token` detaches this caller only.
+   * The shared work is cancelled once every caller waiting for it has left.
+   */
+  withToken(token: ICancellationToken | AbortSignal | undefined, ...args: A): Promise<R>;
+
+  /**
+   * The number of keys with work in flight.
+   */
+  readonly inFlight: number;
+}
+
+
+type Flight<R> = {
+  promise: Promise<R>;
+  source: CancellationTokenSource;
+  subscribers: number;
+};
+
+
+/**
+ * Shares one in-flight call of `fn` between every concurrent caller whose arguments map to the same key.
+ * Once that call settled, the next caller for the key starts a new one.
+ *
+ * @param keyFn - Maps the arguments of a call to the key identifying its work.
+ * @param fn - The work to share, receiving a token cancelled when nobody waits for it anymore.
+ */
+export function singleFlight<A extends unknown[], R>(
+  keyFn: (...args: A) => unknown,
+  fn: (token: ICancellationToken, ...args: A) => R | Promise<R> // eslint-disable-line comma-dangle
+): SingleFlightFunction<A, R> {
+  const flights: Map<unknown, Flight<R>> = new Map();
+
+  const start = (key: unknown, args: A): Flight<R> => {
+    const source = new CancellationTokenSource();
+    const promise = new Promise<R>(resolve => resolve(fn(source.token, ...args)));
+
+    const flight: Flight<R> = { promise, source, subscribers: 0 };
+    flights.set(key, flight);
+
+    const settle = () => {
+      if(flights.get(key) === flight) {
+        flights.delete(key);
+      }
+
+      source.dispose();
+    };
+
+    promise.then(settle, settle);
+    return flight;
+  };
+
+  const withToken = (tokenOrSignal: ICancellationToken | AbortSignal | undefined, ...args: A): Promise<R> => {
+    const token = CancellationToken.from(tokenOrSignal);
+
+    if(token.isCancellationRequested)
+      return Promise.reject(new CancellationError(token.reason));
+
+    const key = keyFn(...args);
+    const flight = flights.get(key) ?? start(key, args);
+
+    flight.subscribers++;
+
+    if(token === CancellationToken.None)
+      return flight.promise;
+
+    return new Promise<R>((resolve, reject) => {
+      const listener = token.onCancellationRequested(reason => {
+        reject(new CancellationError(reason));
+
+        if(--flight.subscribers > 0) return;
+
+        // Nobody is left waiting, so the work is dropped and the next caller starts over
+        if(flights.get(key) === flight) {
+          flights.delete(key);
+        }
+
+        flight.source.cancel(reason);
+      });
+
+      flight.promise.then(value => {
+        listener.dispose();
+        resolve(value);
+      }, err => {
+        listener.dispose();
+        reject(err);
+      });
+    });
+  };
+
+  const call = ((...args: A) => withToken(undefined, ...args)) as SingleFlightFunction<A, R>;
+
+  return Object.defineProperties(call, {
+    withToken: { value: withToken },
+    inFlight: { get: () => flights.size },
+  });
+}
+
+export default singleFlight;
@@ -0,0 +1,147 @@
+import './@internals/polyfills';
+
+import { assert } from '@rapid-d-kit/safe';
+
+import Semaphore from './semaphore';
+import { Exception } from './@internals/errors';
+import { CancellationError, CancellationTokenSource, ICancellationToken, isCancellationError, throwIfCancelled } from './cancellation';
+
+
+export type TaskGroupOptions = {
+  /**
+   * Optional parent token or AbortSignal, cancelling the whole group.
+   */
+  token?: ICancellationToken | AbortSignal;
+
+  /**
+   * - `fail-fast`: the first failing task cancels its siblings, and its error is the one the group rejects with.
+   * - `collect`: the other tasks keep running, and the group rejects with an exception holding every error.
+   */
+  mode?: 'fail-fast' | 'collect';
+
+  /**
+   * The maximum number of tasks of the group running at once.
+   */
+  concurrency?: number;
+};
+
+
+/**
+ * A scope owning a set of child tasks: they share one cancellation token, and the group
+ * is only done once each of them settled, whether they succeeded, failed or were cancelled.
+ */
+export class TaskGroup implements AsyncDisposable {
+  #closed: boolean = false;
+  #errors: unknown[] = [];
+  #mode: 'fail-fast' | 'collect';
+  #source: CancellationTokenSource;
+  #semaphore: Semaphore | null = null;
+  #pending: Set<Promise<unknown>> = new Set();
+
+  public constructor({ token, mode = 'fail-fast', concurrency }: TaskGroupOptions = {}) {
+    this.#mode = mode;
+    this.#source = new CancellationTokenSource(token);
+
+    if(typeof concurrency === 'number') {
+      assert(Number.isInteger(concurrency) && concurrency > 0);
+      this.#semaphore = new Semaphore(concurrency);
+    }
+  }
+
+  /**
+   * The token shared by every task of the group.
+   */
+  public get token(): ICancellationToken {
+    return this.#source.token;
+  }
+
+  /**
+   * The number of tasks of the group that did not settle yet.
+   */
+  public get size(): number {
+    return this.#pending.size;
+  }
+
+  /**
+   * Starts `fn` as a task of the group.
+   *
+   * The returned promise can be awaited for the task's own result, but it does not have to:
+   * its failure is reported by the group anyway.
+   */
+  public spawn<T>(fn: (token: ICancellationToken) => T | Promise<T>): Promise<T> {
+    if(this.#closed) {
+      throw new Exception('Cannot spawn a task in a task group that already exited', 'ERR_RESOURCE_DISPOSED');
+    }
+
+    const token = this.#source.token;
+
+    const promise = (async () => {
+      throwIfCancelled(token);
+
+      if(!this.#semaphore)
+        return fn(token);
+
+      return this.#semaphore.runExclusive(() => fn(token), { token });
+    })();
+
+    this.#pending.add(promise);
+
+    promise.then(() => {
+      this.#pending.delete(promise);
+    }, err => {
+      this.#pending.delete(promise);
+      this.#onTaskError(err);
+    });
+
+    return promise;
+  }
+
+  /**
+   * Requests the cancellation of every task of the group.
+   */
+  public cancel(reason?: any): void {
+    this.#source.cancel(reason);
+  }
+
+  /**
+   * Waits for every task of the group to settle, including the ones spawned in the meantime, then closes the group.
+   *
+   * Rejects with the first error in `fail-fast` mode, with an exception holding every error in `collect` mode,
+   * or with a `CancellationError` if the group was cancelled without any task failing.
+   */
+  public async join(): Promise<void> {
+    while(this.#pending.size > 0) {
+      await Promise.allSettled([...this.#pending]);
+    }
+
+    this.#closed = true;
+
+    const token = this.#source.token;
+    this.#source.dispose();
+
+    if(this.#errors.length === 0) {
+      if(token.isCancellationRequested) throw new CancellationError(token.reason, 'The task group was cancelled');
+      return;
+    }
+
+    if(this.#mode === 'fail-fast') throw this.#errors[0];
+    throw new Exception(`${this.#errors.length} tasks of the group failed`, 'ERR_UNKNOWN_ERROR', { context: { errors: [...this.#errors] } });
+  }
+
+  public [Symbol.asyncDispose](): Promise<void> {
+    return this.join();
+  }
+
+  #onTaskError(error: unknown): void {
+    // Tasks stopped by the group's own cancellation did not fail on their own
+    if(this.#source.token.isCancellationRequested && isCancellationError(error)) return;
+
+    this.#errors.push(error);
+
+    if(this.#mode === 'fail-fast' && this.#errors.length === 1) {
+      this.#source.cancel(error);
+    }
+  }
+}
+
+export default TaskGroup;
@@ -0,0 +1,109 @@
+import { DefaultClock } from './clock';
+import { expectPendingTimers, VirtualClock } from './testing';
+
+
+describe('VirtualClock', () => {
+  test('should run the timers by due time, then in scheduling order', async () => {
+    const clock = new VirtualClock();
+    const order: string[] = [];
+
+    clock.setTimeout(() => void order.push('b'), 20);
+    clock.setTimeout(() => void order.push('a'), 10);
+    clock.setTimeout(() => void order.push('c'), 20);
+    clock.setImmediate(() => void order.push('immediate'));
+
+    await clock.runAllPending();
+
+    expect(order).toEqual(['immediate', 'a', 'b', 'c']);
+    expect(clock.now()).toBe(20);
+  });
+
+  test('should only run the timers falling due when advancing', async () => {
+    const clock = new VirtualClock(1000);
+    const order: number[] = [];
+
+    clock.setTimeout(() => void order.push(clock.now()), 50);
+    clock.setTimeout(() => void order.push(clock.now()), 150);
+
+    await clock.advanceBy(100);
+
+    expect(order).toEqual([1050]);
+    expect(clock.now()).toBe(1100);
+    expect(clock.pending).toBe(1);
+
+    await clock.advanceBy(50);
+
+    expect(order).toEqual([1050, 1150]);
+    expectPendingTimers(clock, 0);
+  });
+
+  test('should settle the promise callbacks of a timer before running the next one', async () => {
+    const clock = new VirtualClock();
+    const order: string[] = [];
+
+    clock.setTimeout(() => void Promise.resolve().then(() => order.push('first settled')), 10);
+    clock.setTimeout(() => void order.push('second'), 10);
+
+    await clock.advanceBy(10);
+
+    expect(order).toEqual(['first settled', 'second']);
+  });
+
+  test('should forget the disposed timers', async () => {
+    const clock = new VirtualClock();
+    const callback = jest.fn();
+
+    clock.setTimeout(callback, 10).dispose();
+    expect(clock.pending).toBe(0);
+
+    await clock.advanceBy(10);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  test('should stop a timer that keeps rescheduling itself', async () => {
+    const clock = new VirtualClock();
+    const tick = () => void clock.setTimeout(tick, 1);
+
+    tick();
+
+    await expect(clock.runAllPending(100)).rejects.toThrow();
+  });
+
+  test('should bind DefaultClock until uninstalled', async () => {
+    const clock = new VirtualClock(500);
+    const installation = clock.install();
+
+    const callback = jest.fn();
+    DefaultClock.setTimeout(callback, 10);
+
+    expect(DefaultClock.now()).toBe(500);
+    await clock.advanceBy(10);
+    expect(callback).toHaveBeenCalled();
+
+    installation.dispose();
+    expect(DefaultClock.now()).not.toBe(510);
+  });
+
+  test('should advance with jest fake timers installed before it was loaded', async () => {
+    jest.useFakeTimers();
+
+    try {
+      let Clock!: typeof VirtualClock;
+
+      jest.isolateModules(() => {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        Clock = require('./testing').VirtualClock;
+      });
+
+      const clock = new Clock();
+      const callback = jest.fn();
+
+      clock.setTimeout(callback, 10);
+      await clock.advanceBy(10);
+
+      expect(callback).toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { setImmediate as _setImmediate } from 'timers';
+import { assert } from '@rapid-d-kit/safe';
+import { IDisposable, toDisposable } from '@rapid-d-kit/disposable';
+
+import { Exception } from './@internals/errors';
+import { IClock, useClock } from './clock';
+
+
+type Timer = {
+  readonly id: number;
+  readonly at: number;
+  readonly callback: () => void;
+};
+
+
+/**
+ * A clock whose time only moves when told to, so code built on the timers of this library runs
+ * deterministically: `install()` binds `DefaultClock` to it, after which `Async.delay`, timeouts,
+ * `Async.resolveNextTick` and the time-based primitives wait for `advanceBy()` or `runAllPending()`.
+ *
+ * Timers due at the same time run in the order they were scheduled, and the promise callbacks
+ * they trigger are settled before the next one runs.
+ */
+export class VirtualClock implements IClock {
+  #now: number;
+  #nextId: number = 0;
+  #timers: Timer[] = [];
+
+  public constructor(startAt: number = 0) {
+    assert(typeof startAt === 'number' && Number.isFinite(startAt));
+    this.#now = startAt;
+  }
+
+  /**
+   * The number of timers that did not run yet.
+   */
+  public get pending(): number {
+    return this.#timers.length;
+  }
+
+  public now(): number {
+    return this.#now;
+  }
+
+  public setTimeout(callback: () => void, ms: number): IDisposable {
+    const timer: Timer = {
+      id: this.#nextId++,
+      at: this.#now + Math.max(0, ms || 0),
+      callback,
+    };
+
+    // Kept sorted by due time, scheduling order breaking ties
+    const index = this.#timers.findIndex(other => other.at > timer.at);
+    this.#timers.splice(index < 0 ? this.#timers.length : index, 0, timer);
+
+    return toDisposable(() => {
+      const index = this.#timers.indexOf(timer);
+
+      if(index >= 0) {
+        this.#timers.splice(index, 1);
+      }
+    });
+  }
+
+  public setImmediate(callback: () => void): IDisposable {
+    return this.setTimeout(callback, 0);
+  }
+
+  /**
+   * Binds the timers of this library to this clock until the returned disposable is disposed.
+   */
+  public install(): IDisposable {
+    return useClock(this);
+  }
+
+  /**
+   * Moves the time forward by `ms` milliseconds, running the timers that fall due on the way.
+   */
+  public async advanceBy(ms: number): Promise<void> {
+    assert(typeof ms === 'number' && ms >= 0);
+    const target = this.#now + ms;
+
+    await _flushPromises();
+
+    while(this.#timers.length > 0 && this.#timers[0].at <= target) {
+      await this.#runNext();
+    }
+
+    this.#now = target;
+    await _flushPromises();
+  }
+
+  /**
+   * Runs every pending timer, including those scheduled meanwhile, moving the time forward as needed.
+   * Throws an `ERR_CONSTRAINT_VIOLATION` exception when more than `limit` timers ran, which usually
+   * means some timer keeps rescheduling itself.
+   */
+  public async runAllPending(limit: number = 10_000): Promise<void> {
+    assert(typeof limit === 'number' && Number.isInteger(limit) && limit > 0);
+
+    await _flushPromises();
+
+    for(let count = 0; this.#timers.length > 0; count++) {
+      if(count >= limit) {
+        throw new Exception(`Ran ${limit} timers and there are still ${this.#timers.length} pending`, 'ERR_CONSTRAINT_VIOLATION');
+      }
+
+      await this.#runNext();
+    }
+  }
+
+  async #runNext(): Promise<void> {
+    const timer = this.#timers.shift()!;
+
+    this.#now = Math.max(this.#now, timer.at);
+    timer.callback();
+
+    await _flushPromises();
+  }
+}
+
+
+/**
+ * Asserts that `target` has exactly `count` acquisitions waiting in its queue.
+ */
+export function expectPendingWaiters(target: { getStats(): { queueLength: number } }, count: number): void {
+  const { queueLength } = target.getStats();
+
+  if(queueLength !== count) {
+    throw new Exception(`Expected ${count} pending waiter${count === 1 ? '' : 's'}, found ${queueLength}`, 'ERR_CONSTRAINT_VIOLATION');
+  }
+}
+
+/**
+ * Asserts that `clock` has exactly `count` timers that did not run yet.
+ */
+export function expectPendingTimers(clock: VirtualClock, count: number): void {
+  if(clock.pending !== count) {
+    throw new Exception(`Expected ${count} pending timer${count === 1 ? '' : 's'}, found ${clock.pending}`, 'ERR_CONSTRAINT_VIOLATION');
+  }
+}
+
+
+// The pending promise callbacks are flushed with the timers module rather than the global, which fake timers replace
+function _flushPromises(): Promise<void> {
+  return new Promise(resolve => _setImmediate(resolve));
+}